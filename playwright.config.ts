@@ -7,9 +7,19 @@ export default defineConfig({
         baseURL: "http://localhost:3333",
         headless: true,
     },
-    webServer: {
-        command: "bun server.ts",
-        url: "http://localhost:3333",
-        reuseExistingServer: true,
-    },
+    webServer: [
+        {
+            command: "bun server.ts",
+            url: "http://localhost:3333",
+            reuseExistingServer: true,
+            // Lets the CORS proxy tests reach their local upstream
+            env: { SANDBOX_PROXY_PRIVATE_HOSTS: "localhost" },
+        },
+        {
+            // Stand-in for jsonplaceholder.typicode.com
+            command: "bun test/fixtures/todo-api.ts",
+            url: "http://localhost:3335/todos/1",
+            reuseExistingServer: true,
+        },
+    ],
 })
@@ -1,8 +1,23 @@
 import { serve } from "bun"
 import { handleSandboxRequest } from "./server/sandbox-handler"
 import { handleHostRequest } from "./server/host-handler"
-import { handleProxyRequest } from "./server/proxy-handler"
+import { handleProxyRequest, PROXY_PATH } from "./server/proxy-handler"
 import { generateCSP } from "./server/csp-firewall"
+import { decodeCSPRules, validateCSPRules } from "./src/lib/csp"
+import { validateAllowRules } from "./src/lib/allow-rules"
+import {
+    decodeConnectionPolicy,
+    validateConnectionPolicy,
+} from "./src/lib/connections"
+import type { CSPRules } from "./src/lib/types"
+import { isSandboxHost } from "./server/sandbox-hosts"
+import { handleSignRequest, verifyConfig } from "./server/signed-config"
+import { SIGN_PATH } from "./src/lib/signed-config"
+import {
+    blockedEmbedderPage,
+    isAllowedEmbedder,
+    refererOrigin,
+} from "./server/embedders"
 
 /**
  * SafeSandbox Development Server
@@ -13,6 +28,17 @@ const PORT = parseInt(process.env.PORT || "3333", 10)
 const HOST = process.env.HOST || "localhost"
 const SANDBOX_HOST = `sandbox.${HOST}`
 
+// Plain-text refusal of a sandbox page, with nothing allowed to run
+function refusePage(status: number, message: string): Response {
+    return new Response(message, {
+        status,
+        headers: {
+            "Content-Type": "text/plain",
+            "Content-Security-Policy": "default-src 'none'",
+        },
+    })
+}
+
 console.log(`Server running at:`)
 console.log(`- Host:    http://${HOST}:${PORT}`)
 console.log(`- Sandbox: http://${SANDBOX_HOST}:${PORT}`)
@@ -22,11 +48,25 @@ serve({
     async fetch(req: Request): Promise<Response> {
         const url = new URL(req.url)
         const hostHeader = req.headers.get("host") || ""
-        const isSandboxSubdomain = hostHeader.startsWith("sandbox.")
+        // sandbox.<host> or a per-session sandbox-<id>.<host>
+        const isSandboxSubdomain = isSandboxHost(hostHeader)
 
         // Route to appropriate handler
         if (isSandboxSubdomain) {
-            // [DYNAMIC CSP] Serve sandbox context with CSP based on ?allow= query param
+            // Signs sandbox configurations for the requesting host origin
+            if (url.pathname === SIGN_PATH) {
+                return handleSignRequest(req)
+            }
+
+            // CORS Proxy: sandbox origins only, used by the sandbox SW with
+            // its signed config (NetworkRules.proxyUrl). Not served on the
+            // host origin: it needs the signed config of a sandbox page.
+            if (url.pathname === PROXY_PATH) {
+                return handleProxyRequest(req, url)
+            }
+
+            // [DYNAMIC CSP] Serve sandbox context with CSP based on the
+            // params of its signed config (?config=<token>)
             if (
                 url.pathname === "/outer-frame.html" ||
                 url.pathname === "/inner-frame.html" ||
@@ -39,17 +79,106 @@ serve({
                         : "./src/sandbox/outer-frame.html"
                 const file = Bun.file(filePath)
 
-                // Parse allowed domains from query string
-                const allowParam = url.searchParams.get("allow") || ""
-                const scriptUnsafe = url.searchParams.has("unsafe")
+                // Unsigned, tampered or expired configs get no sandbox page
+                const config = verifyConfig(url.searchParams.get("config"))
+                if (!config) {
+                    return refusePage(
+                        403,
+                        "Forbidden: sandbox config is missing, invalid or expired",
+                    )
+                }
+
+                // The allowlist may have changed since signing, and the
+                // Referer names the page that actually embeds the outer frame
+                const isInnerFrame = url.pathname === "/inner-frame.html"
+                const embedder = isInnerFrame ? null : refererOrigin(req)
+                if (
+                    !isAllowedEmbedder(config.host) ||
+                    (embedder && embedder !== config.host)
+                ) {
+                    return blockedEmbedderPage(
+                        embedder ?? config.host,
+                        url.pathname,
+                    )
+                }
+
+                const params = new URLSearchParams(config.params)
+
+                // Parse allowed domains from the signed params
+                const allowParam = params.get("allow") || ""
+                const scriptUnsafe = params.has("unsafe")
+
+                // Every entry must be rule syntax: a malformed one could
+                // smuggle CSP keywords or directives into the header
+                const denyParam = params.get("deny") || ""
+                const allowProblems = validateAllowRules({
+                    allow: allowParam ? allowParam.split(",") : [],
+                    deny: denyParam ? denyParam.split(",") : [],
+                })
+                if (allowProblems.length > 0) {
+                    return refusePage(
+                        400,
+                        `Invalid allow rules: ${allowProblems.join("; ")}`,
+                    )
+                }
+
+                // Same for the WebSocket / EventSource hosts (`ws`, `sse`)
+                const connectionProblems = validateConnectionPolicy(
+                    decodeConnectionPolicy(params),
+                )
+                if (connectionProblems.length > 0) {
+                    return refusePage(
+                        400,
+                        `Invalid connection rules: ${connectionProblems.join("; ")}`,
+                    )
+                }
+
+                // opaqueOrigin: the inner frame talks to the network only
+                // through the outer frame's fetch proxy
+                const opaqueOrigin =
+                    isInnerFrame && params.has("opaque")
+                        ? url.origin
+                        : undefined
+
+                // NetworkRules.csp: refused as a whole if anything in it
+                // would loosen the defaults. Applied to the inner frame
+                // only, the outer frame needs its own frame-src/script-src.
+                const cspRules = decodeCSPRules(params.get("csp"))
+                if (cspRules !== undefined) {
+                    const problems = validateCSPRules(cspRules)
+                    if (problems.length > 0) {
+                        return refusePage(
+                            400,
+                            `Invalid csp rules: ${problems.join("; ")}`,
+                        )
+                    }
+                }
 
                 // Generate CSP using the dedicated firewall module
-                const csp = generateCSP(allowParam, PORT, scriptUnsafe)
+                const csp = generateCSP(
+                    allowParam,
+                    PORT,
+                    scriptUnsafe,
+                    opaqueOrigin,
+                    {
+                        websockets: params.get("ws"),
+                        eventSource: params.get("sse"),
+                    },
+                    isInnerFrame
+                        ? (cspRules as CSPRules | undefined)
+                        : undefined,
+                )
+
+                // Only the signed host may embed the outer frame; the inner
+                // frame's ancestors are the outer frame and the host
+                const frameAncestors = isInnerFrame
+                    ? `${url.origin} ${config.host}`
+                    : config.host
 
                 return new Response(file, {
                     headers: {
                         "Content-Type": "text/html",
-                        "Content-Security-Policy": csp,
+                        "Content-Security-Policy": `${csp} frame-ancestors ${frameAncestors};`,
                         "Cache-Control": "no-store", // Prevent browser from caching old CSP
                     },
                 })
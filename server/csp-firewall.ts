@@ -3,55 +3,167 @@
  * Generates the Content Security Policy headers for the sandbox.
  */
 
+import type { CSPRules } from "../src/lib/types"
+import { allowRuleSources } from "../src/lib/allow-rules"
+
+// Comma-separated list from a query param
+function parseList(param: string | null | undefined): string[] {
+    return param
+        ? param
+              .split(",")
+              .map((d) => d.trim())
+              .filter(Boolean)
+        : []
+}
+
+// [scheme://]host[:port][/path]. Anything else (spaces, quotes, ';') could
+// add sources or whole directives to the header.
+const DOMAIN_SOURCE =
+    /^(?:([a-z]+):\/\/)?(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*(?::\d{1,5})?(?:\/[\w\-.~%/]*)?$/i
+
+/**
+ * Maps a domain to CSP sources for a scheme family: `http` (http/https) or
+ * `ws` (ws/wss). Explicit URLs of that family are kept as they are; URLs of
+ * other schemes and malformed entries give no source.
+ */
+function domainSources(
+    d: string,
+    port: number,
+    scheme: "http" | "ws",
+): string[] {
+    const match = DOMAIN_SOURCE.exec(d)
+    if (!match) return []
+    if (match[1]) {
+        const family = match[1].toLowerCase()
+        return family === scheme || family === `${scheme}s` ? [d] : []
+    }
+
+    // Handle localhost and 127.0.0.1 specially to support local dev protocols (HTTP/HTTPS/Ports)
+    if (
+        d === "localhost" ||
+        d.startsWith("localhost:") ||
+        d === "127.0.0.1" ||
+        d.startsWith("127.0.0.1:")
+    ) {
+        const base = [`${scheme}://${d}`, `${scheme}s://${d}`]
+        const portSuffix = port ? `:${port}` : ""
+        // If no port specified in allowed list, also allow the current server port
+        if (!d.includes(":") && portSuffix) {
+            return [
+                ...base,
+                `${scheme}://${d}${portSuffix}`,
+                `${scheme}s://${d}${portSuffix}`,
+            ]
+        }
+        return base
+    }
+    return [`${scheme}s://${d}`]
+}
+
+/**
+ * Long-lived connections (see src/lib/connections.ts): `websockets` and
+ * `eventSource` are the `ws` / `sse` params, comma-separated hosts. Absent
+ * means blocked.
+ */
+export interface ConnectionParams {
+    websockets?: string | null
+    eventSource?: string | null
+}
+
+// Sources of NetworkRules.csp directives: bare hosts get a scheme like
+// `allow` domains, keywords and schemes (data:, blob:) are kept
+function ruleSource(source: string, port: number): string[] {
+    return source.startsWith("'") || source.endsWith(":")
+        ? [source]
+        : domainSources(source, port, "http")
+}
+
+/**
+ * `csp` must have passed validateCSPRules (src/lib/csp.ts): it can only
+ * name specific hosts, never loosen script-src or connect-src.
+ */
 export function generateCSP(
     allowParam: string,
     port: number,
     scriptUnsafe: boolean = false,
+    opaqueOrigin?: string,
+    connections: ConnectionParams = {},
+    csp: CSPRules = {},
 ): string {
     // Parse allowed domains from query string
-    const allowedDomains = allowParam
-        ? allowParam
-              .split(",")
-              .map((d) => d.trim())
-              .filter(Boolean)
-        : []
+    const allowedDomains = parseList(allowParam)
 
-    // Build allowed origins list for multiple directives
+    // Build allowed origins list for multiple directives. Rules are
+    // origin-level here; paths and deny rules are enforced by the SW.
     const allowedOrigins = [
         "'self'",
-        ...allowedDomains.map((d) => {
-            if (d.startsWith("http")) return d
-
-            // Handle localhost and 127.0.0.1 specially to support local dev protocols (HTTP/HTTPS/Ports)
-            if (
-                d === "localhost" ||
-                d.startsWith("localhost:") ||
-                d === "127.0.0.1" ||
-                d.startsWith("127.0.0.1:")
-            ) {
-                const base = `http://${d} https://${d}`
-                const portSuffix = port ? `:${port}` : ""
-                // If no port specified in allowed list, also allow the current server port
-                if (!d.includes(":") && portSuffix) {
-                    return `${base} http://${d}${portSuffix} https://${d}${portSuffix}`
-                }
-                return base
-            }
-            return `https://${d}`
-        }),
+        ...allowedDomains.flatMap((d) =>
+            allowRuleSources(d, port ? String(port) : ""),
+        ),
     ].join(" ")
 
+    // Precise connect-src entries for WebSocket and EventSource hosts.
+    // Note: CSP3 also matches wss: against an https: source, so outside
+    // opaque mode WebSockets to `allow` hosts are only stopped by the inner
+    // frame's constructor guard.
+    const connectionSources = [
+        ...parseList(connections.websockets).flatMap((d) =>
+            domainSources(d, port, "ws"),
+        ),
+        ...parseList(connections.eventSource).flatMap((d) =>
+            domainSources(d, port, "http"),
+        ),
+    ]
+
     // CSP: Allow eval (for user code), inline images/scripts/styles from allowed domains
     // This is the core "Firewall" that prevents exfiltration to unauthorized domains
-    const scriptDirectives = scriptUnsafe
+    let scriptDirectives = scriptUnsafe
         ? `'self' 'unsafe-inline' 'unsafe-eval' ${allowedOrigins}`
         : `'self' ${allowedOrigins}`
+    let connectDirectives = [allowedOrigins, ...connectionSources].join(" ")
+
+    // Opaque-origin inner frame: 'self' no longer names the sandbox origin,
+    // so it is listed explicitly, plus blob: for the import() shim.
+    // Requests go through the outer frame's fetch proxy; direct connections
+    // would bypass the Service Worker and are refused. WebSocket and
+    // EventSource cannot be proxied, so only their listed hosts remain:
+    // this is what enforces `websockets` for the `allow` hosts.
+    if (opaqueOrigin) {
+        scriptDirectives += ` ${opaqueOrigin} blob:`
+        connectDirectives = connectionSources.join(" ") || "'none'"
+    }
+
+    // Nonces and hashes only add specific scripts. Note that they make
+    // browsers ignore 'unsafe-inline' for <script> elements.
+    const scriptSources = [
+        ...(csp.scriptNonces ?? []).map((nonce) => `'nonce-${nonce}'`),
+        ...(csp.scriptHashes ?? []).map((hash) => `'${hash}'`),
+        ...(csp.wasmUnsafeEval ? ["'wasm-unsafe-eval'"] : []),
+    ]
+    if (scriptSources.length > 0) {
+        scriptDirectives += ` ${scriptSources.join(" ")}`
+    }
+
+    // form-action and base-uri do not fall back to default-src
+    const directives: Record<string, string> = {
+        "default-src": "'self'",
+        "script-src": scriptDirectives,
+        "img-src": `'self' data: ${allowedOrigins}`,
+        "style-src": "'self' 'unsafe-inline'",
+        "connect-src": connectDirectives,
+        "form-action": allowedOrigins,
+        "base-uri": allowedOrigins,
+    }
+    for (const [name, sources] of Object.entries(csp.directives ?? {})) {
+        directives[name] = sources
+            .flatMap((source) => ruleSource(source, port))
+            .join(" ")
+    }
+    if (csp.requireTrustedTypes) {
+        directives["require-trusted-types-for"] = "'script'"
+    }
 
-    return (
-        `default-src 'self'; ` +
-        `script-src ${scriptDirectives}; ` +
-        `img-src 'self' data: ${allowedOrigins}; ` +
-        `style-src 'self' 'unsafe-inline'; ` +
-        `connect-src ${allowedOrigins};`
-    )
+    return Object.entries(directives)
+        .map(([name, value]) => `${name} ${value};`)
+        .join(" ")
 }
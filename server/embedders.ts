@@ -0,0 +1,89 @@
+import { existsSync, readFileSync } from "node:fs"
+
+/**
+ * Embedder Allowlist
+ * Host origins allowed to embed the sandbox. Sources, first match wins:
+ * - SANDBOX_EMBEDDERS: comma-separated origins
+ * - `embedders` in the JSON file at SANDBOX_CONFIG (default: sandbox.config.json)
+ * - the dev server's own host origin
+ */
+
+const HOST = process.env.HOST || "localhost"
+const PORT = parseInt(process.env.PORT || "3333", 10)
+const CONFIG_FILE = process.env.SANDBOX_CONFIG || "sandbox.config.json"
+
+function readConfiguredEmbedders(): string[] {
+    if (process.env.SANDBOX_EMBEDDERS) {
+        return process.env.SANDBOX_EMBEDDERS.split(",")
+    }
+    if (existsSync(CONFIG_FILE)) {
+        const config = JSON.parse(readFileSync(CONFIG_FILE, "utf8"))
+        if (!Array.isArray(config.embedders)) {
+            throw new Error(`${CONFIG_FILE}: "embedders" must be a list`)
+        }
+        return config.embedders
+    }
+    return [`http://${HOST}:${PORT}`]
+}
+
+// Normalized origins; a malformed entry stops the server at startup
+export const EMBEDDERS: string[] = readConfiguredEmbedders()
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+        const origin = new URL(entry).origin
+        if (origin === "null") {
+            throw new Error(`Embedder "${entry}" is not an http(s) origin`)
+        }
+        return origin
+    })
+
+export function isAllowedEmbedder(origin: string | null): boolean {
+    return !!origin && EMBEDDERS.includes(origin)
+}
+
+/**
+ * Origin of the Referer header: the page that navigated the frame.
+ * Null when the embedder sends no referrer.
+ */
+export function refererOrigin(req: Request): string | null {
+    const referer = req.headers.get("Referer")
+    if (!referer) return null
+    try {
+        return new URL(referer).origin
+    } catch {
+        return null
+    }
+}
+
+export function logBlockedEmbedder(origin: string | null, path: string) {
+    console.warn(
+        `[Sandbox] Blocked embedder ${origin ?? "(unknown)"} for ${path}: not in the embedder allowlist`,
+    )
+}
+
+/**
+ * Logs the refusal and returns an error page the disallowed embedder is
+ * allowed to display (frame-ancestors *), so the reason is visible.
+ */
+export function blockedEmbedderPage(
+    origin: string | null,
+    path: string,
+): Response {
+    logBlockedEmbedder(origin, path)
+    const name = (origin ?? "This page").replace(/[<>&"]/g, "")
+    return new Response(
+        `<!DOCTYPE html><title>Sandbox unavailable</title>` +
+            `<p style="font-family: sans-serif">${name} is not allowed to embed this sandbox. ` +
+            `Add the origin to SANDBOX_EMBEDDERS or the embedders list of the sandbox config.</p>`,
+        {
+            status: 403,
+            headers: {
+                "Content-Type": "text/html; charset=utf-8",
+                "Cache-Control": "no-store",
+                "Content-Security-Policy":
+                    "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *",
+            },
+        },
+    )
+}
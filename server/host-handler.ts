@@ -1,4 +1,5 @@
 import { join } from "path"
+import { isSandboxOrigin } from "./sandbox-hosts"
 
 /**
  * Host Handler - Development server routes
@@ -9,6 +10,11 @@ const PROJECT_ROOT = process.cwd()
 const SANDBOX_HOST = `sandbox.${process.env.HOST || "localhost"}`
 const PORT = parseInt(process.env.PORT || "3333", 10)
 
+// Shared sandbox origin plus the per-session sandbox-<id> subdomains
+// (isolation="session"). CSP cannot match a label prefix, so any subdomain
+// of the host may be framed.
+const SANDBOX_SOURCES = `http://${SANDBOX_HOST}:${PORT} http://*.${process.env.HOST || "localhost"}:${PORT}`
+
 export async function handleHostRequest(
     req: Request,
     url: URL,
@@ -37,11 +43,15 @@ export async function handleHostRequest(
         return new Response("Not Found", { status: 404 })
     }
 
+    // Allow sandbox origins (shared or per-session) to fetch resources
+    const origin = req.headers.get("Origin")
     const headers: Record<string, string> = {
         "Content-Type": file.type,
         "Cache-Control": "no-store, no-cache, must-revalidate",
-        // Allow sandbox origin to fetch resources
-        "Access-Control-Allow-Origin": `http://${SANDBOX_HOST}:${PORT}`,
+        "Access-Control-Allow-Origin": isSandboxOrigin(origin)
+            ? origin!
+            : `http://${SANDBOX_HOST}:${PORT}`,
+        Vary: "Origin",
     }
 
     // Transpile TypeScript for browser
@@ -58,12 +68,11 @@ export async function handleHostRequest(
             const jsCode = await result.outputs[0].text()
 
             // Host CSP
-            const sandboxOrigin = `http://${SANDBOX_HOST}:${PORT}`
             headers["Content-Security-Policy"] =
-                `default-src 'self' ${sandboxOrigin}; ` +
+                `default-src 'self' ${SANDBOX_SOURCES}; ` +
                 `script-src 'self' 'unsafe-inline'; ` +
                 `style-src 'self' 'unsafe-inline'; ` +
-                `frame-src ${sandboxOrigin};`
+                `frame-src ${SANDBOX_SOURCES};`
 
             return new Response(jsCode, { headers })
         } else {
@@ -73,12 +82,11 @@ export async function handleHostRequest(
     }
 
     // Host CSP for non-TS files
-    const sandboxOrigin = `http://${SANDBOX_HOST}:${PORT}`
     headers["Content-Security-Policy"] =
-        `default-src 'self' ${sandboxOrigin}; ` +
+        `default-src 'self' ${SANDBOX_SOURCES}; ` +
         `script-src 'self' 'unsafe-inline'; ` +
         `style-src 'self' 'unsafe-inline'; ` +
-        `frame-src ${sandboxOrigin};`
+        `frame-src ${SANDBOX_SOURCES};`
 
     return new Response(file as any, { headers })
 }
@@ -1,83 +1,429 @@
+import { lookup } from "node:dns/promises"
+import { isIP } from "node:net"
+import { verifyConfig } from "./signed-config"
+import { isAllowedEmbedder } from "./embedders"
+import { checkAllowRules } from "../src/lib/allow-rules"
+import { CONFIG_PARAM, PROXY_PATH } from "../src/lib/signed-config"
+
 /**
  * Proxy Handler - CORS proxy for external resources
- * Shared by both host and sandbox origins.
+ * Served on sandbox origins at /_proxy?url=<target>&config=<token>.
+ * The sandbox SW rewrites allowed cross-origin requests to it when
+ * NetworkRules.proxyUrl is set; only configs signed with that opt-in (the
+ * `proxy` param) are served. Every target (and every redirect hop) must
+ * match the `allow` and `deny` rules of the signed config and resolve to a
+ * public address. Bodies, time and headers are limited in both directions.
  */
 
-export async function handleProxyRequest(
+export { PROXY_PATH }
+
+const PROXY_TIMEOUT_MS = parseInt(
+    process.env.SANDBOX_PROXY_TIMEOUT_MS || "15000",
+    10,
+)
+const PROXY_MAX_BYTES = parseInt(
+    process.env.SANDBOX_PROXY_MAX_BYTES || String(10 * 1024 * 1024),
+    10,
+)
+const PROXY_MAX_REDIRECTS = 5
+
+// Hostnames exempt from the private address check, e.g. a local test
+// upstream ("localhost,127.0.0.1"). Empty by default.
+const PRIVATE_HOSTS = (process.env.SANDBOX_PROXY_PRIVATE_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+
+const PROXY_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"]
+const REDIRECT_STATUS = [301, 302, 303, 307, 308]
+
+// Request headers forwarded upstream; cookies, Origin, Referer and
+// forwarding headers of the sandbox never leave the server
+const FORWARDED_REQUEST_HEADERS = [
+    "accept",
+    "accept-language",
+    "authorization",
+    "cache-control",
+    "content-type",
+    "if-match",
+    "if-modified-since",
+    "if-none-match",
+    "if-unmodified-since",
+    "range",
+]
+
+// Response headers that must not apply to the sandbox origin or that no
+// longer describe the (decoded, re-streamed) body
+const DROPPED_RESPONSE_HEADERS = [
+    "set-cookie",
+    "set-cookie2",
+    "clear-site-data",
+    "strict-transport-security",
+    "alt-svc",
+    "service-worker-allowed",
+    "content-security-policy",
+    "content-security-policy-report-only",
+    "content-encoding",
+    "content-length",
+    "transfer-encoding",
+    "connection",
+    "keep-alive",
+    "location",
+    "refresh",
+]
+
+class ProxyError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+    ) {
+        super(message)
+    }
+}
+
+function proxyError(status: number, message: string): Response {
+    return new Response(`Proxy: ${message}`, {
+        status,
+        headers: {
+            "Content-Type": "text/plain",
+            "Cache-Control": "no-store",
+        },
+    })
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it is invalid.
+ * A trailing dotted IPv4 part ("::ffff:127.0.0.1") counts as two groups.
+ */
+function parseIPv6(address: string): number[] | null {
+    let text = address.toLowerCase().replace(/%.*$/, "")
+    const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+    if (dotted) {
+        if (isIP(dotted[2]) !== 4) return null
+        const [a, b, c, d] = dotted[2].split(".").map(Number)
+        text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+    }
+    const parts = text.split("::")
+    if (parts.length > 2) return null
+    const groups = (part: string) => (part ? part.split(":") : [])
+    const head = groups(parts[0])
+    const tail = parts.length === 2 ? groups(parts[1]) : []
+    const missing = 8 - head.length - tail.length
+    if (parts.length === 2 ? missing < 1 : missing !== 0) return null
+    const all = [...head, ...Array<string>(missing).fill("0"), ...tail]
+    if (!all.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null
+    return all.map((group) => parseInt(group, 16))
+}
+
+// IPv4 address carried in two groups of an IPv6 address
+function embeddedIPv4(groups: number[], at: number): string {
+    const high = groups[at]
+    const low = groups[at + 1]
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved ranges.
+ * IPv6 addresses that carry an IPv4 address (mapped, compatible, NAT64,
+ * 6to4) are checked by that address; Teredo is refused outright.
+ */
+export function isPrivateAddress(address: string): boolean {
+    if (isIP(address) === 4) {
+        const [a, b] = address.split(".").map(Number)
+        return (
+            a === 0 ||
+            a === 10 ||
+            a === 127 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168) ||
+            (a === 192 && b === 0) ||
+            (a === 198 && (b === 18 || b === 19)) ||
+            a >= 224
+        )
+    }
+    const groups = parseIPv6(address)
+    if (!groups) return true
+    const zero = (from: number, to: number) =>
+        groups.slice(from, to).every((group) => group === 0)
+    const [first, second, third] = groups
+
+    // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible (::/96, incl. :: and ::1)
+    if (zero(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+        return isPrivateAddress(embeddedIPv4(groups, 6))
+    }
+    // NAT64: well-known prefix 64:ff9b::/96, local-use 64:ff9b:1::/48
+    if (first === 0x64 && second === 0xff9b) {
+        if (zero(2, 6)) return isPrivateAddress(embeddedIPv4(groups, 6))
+        if (third === 1) return true
+    }
+    // 6to4 (2002::/16)
+    if (first === 0x2002) return isPrivateAddress(embeddedIPv4(groups, 1))
+    return (
+        (first === 0x100 && zero(1, 4)) || // Discard-only 100::/64
+        (first === 0x2001 && second < 0x200) || // Teredo, ORCHID, ... 2001::/23
+        (first === 0x2001 && second === 0xdb8) || // Documentation
+        (first & 0xfe00) === 0xfc00 || // Unique local fc00::/7
+        (first & 0xffc0) === 0xfe80 || // Link-local fe80::/10
+        (first & 0xffc0) === 0xfec0 || // Site-local fec0::/10
+        first >= 0xff00 // Multicast
+    )
+}
+
+/**
+ * Throws a ProxyError unless the target may be fetched. Returns the
+ * checked address to connect to, or null for SANDBOX_PROXY_PRIVATE_HOSTS.
+ */
+async function checkTarget(
+    target: URL,
+    rules: { allow: string[]; deny: string[] },
+    sandboxPort: string,
+): Promise<string | null> {
+    if (!["http:", "https:"].includes(target.protocol)) {
+        throw new ProxyError(400, `protocol ${target.protocol} is not allowed`)
+    }
+    const violated = checkAllowRules(target, rules, sandboxPort)
+    if (violated) {
+        throw new ProxyError(
+            403,
+            violated === "deny"
+                ? `${target.href} matches a deny rule`
+                : `${target.href} matches no allow rule`,
+        )
+    }
+
+    const hostname = target.hostname.replace(/^\[|\]$/g, "").toLowerCase()
+    if (PRIVATE_HOSTS.includes(hostname)) return null
+
+    const addresses = isIP(hostname)
+        ? [hostname]
+        : (await lookup(hostname, { all: true })).map((entry) => entry.address)
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new ProxyError(
+            403,
+            `${target.host} resolves to a private address`,
+        )
+    }
+    return addresses[0]
+}
+
+/**
+ * Connects to the checked address instead of resolving the hostname again,
+ * so it cannot change in between (DNS rebinding). The Host header and the
+ * TLS server name stay those of the target.
+ */
+function pinToAddress(
+    target: URL,
+    address: string | null,
+    init: BunFetchRequestInit & { headers: Headers },
+): [URL, BunFetchRequestInit] {
+    const hostname = target.hostname.replace(/^\[|\]$/g, "")
+    if (!address || address === hostname) return [target, init]
+
+    const pinned = new URL(target)
+    pinned.hostname = isIP(address) === 6 ? `[${address}]` : address
+    const headers = new Headers(init.headers)
+    headers.set("Host", target.host)
+    return [
+        pinned,
+        {
+            ...init,
+            headers,
+            tls:
+                target.protocol === "https:"
+                    ? { serverName: hostname }
+                    : undefined,
+        },
+    ]
+}
+
+/**
+ * Reads a request body of at most PROXY_MAX_BYTES. Redirects may send it
+ * again, so it is buffered, but never beyond the limit.
+ */
+async function readBody(
     req: Request,
-    url: URL,
-): Promise<Response> {
-    // PROXY DISABLED
-    // The following implementation is disabled as we currently do not support
-    // general-purpose proxying due to security and complexity concerns.
+): Promise<Uint8Array<ArrayBuffer> | undefined> {
+    const tooLarge = () =>
+        new ProxyError(413, `request body exceeds ${PROXY_MAX_BYTES} bytes`)
+    if (Number(req.headers.get("Content-Length")) > PROXY_MAX_BYTES) {
+        throw tooLarge()
+    }
+    if (!req.body) return undefined
+
+    const chunks: Uint8Array[] = []
+    let size = 0
+    const reader = req.body.getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        size += value.byteLength
+        if (size > PROXY_MAX_BYTES) {
+            await reader.cancel()
+            throw tooLarge()
+        }
+        chunks.push(value)
+    }
+    const body = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        body.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return body
+}
+
+function scrubRequestHeaders(headers: Headers): Headers {
+    const forwarded = new Headers()
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+        const value = headers.get(name)
+        if (value !== null) forwarded.set(name, value)
+    }
+    return forwarded
+}
 
-    return new Response("Proxy is not currently supported.", {
-        status: 501, // Not Implemented
-        statusText: "Not Implemented",
+function scrubResponseHeaders(headers: Headers): Headers {
+    const scrubbed = new Headers(headers)
+    for (const name of DROPPED_RESPONSE_HEADERS) scrubbed.delete(name)
+    headers.forEach((_, name) => {
+        if (name.startsWith("access-control-")) scrubbed.delete(name)
     })
+    // Proxied content is data for the sandbox, never a document of its origin
+    scrubbed.set("Content-Security-Policy", "default-src 'none'; sandbox")
+    scrubbed.set("X-Content-Type-Options", "nosniff")
+    return scrubbed
+}
 
-    /*
-    const targetUrl = url.searchParams.get("url")
+/**
+ * Passes the body through until PROXY_MAX_BYTES, then errors the stream.
+ */
+function limitBody(body: ReadableStream<Uint8Array>): ReadableStream {
+    let received = 0
+    return body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                received += chunk.byteLength
+                if (received > PROXY_MAX_BYTES) {
+                    controller.error(
+                        new Error(`response exceeds ${PROXY_MAX_BYTES} bytes`),
+                    )
+                    return
+                }
+                controller.enqueue(chunk)
+            },
+        }),
+    )
+}
 
-    const corsHeaders = new Headers()
-    const origin = req.headers.get("origin")
-    // Simple check - in production you'd want robust config-based matching
-    if (
-        origin &&
-        (origin.includes("localhost") || origin.includes("127.0.0.1"))
-    ) {
-        corsHeaders.set("Access-Control-Allow-Origin", origin)
+export async function handleProxyRequest(
+    req: Request,
+    url: URL,
+): Promise<Response> {
+    // Only the sandbox's own Service Worker calls the proxy
+    const site = req.headers.get("Sec-Fetch-Site")
+    if (site && site !== "same-origin") {
+        return proxyError(403, "cross-site requests are not allowed")
     }
-    corsHeaders.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
-    corsHeaders.set("Access-Control-Allow-Headers", "*")
 
-    // Handle preflight
-    if (req.method === "OPTIONS") {
-        return new Response(null, { headers: corsHeaders })
+    // The token's expiry guards page loads; a sandbox may run longer
+    const config = verifyConfig(url.searchParams.get(CONFIG_PARAM), true)
+    if (!config || !isAllowedEmbedder(config.host)) {
+        return proxyError(403, "a valid sandbox config is required")
+    }
+    // Sandboxes without proxyUrl never opted in; their token is readable by
+    // user code in the frame URL
+    const params = new URLSearchParams(config.params)
+    if (!params.has("proxy")) {
+        return proxyError(403, "the sandbox config does not enable the proxy")
+    }
+    if (!PROXY_METHODS.includes(req.method)) {
+        return proxyError(405, `method ${req.method} is not allowed`)
     }
 
-    if (!targetUrl) {
-        return new Response("Missing url parameter", {
-            status: 400,
-            headers: corsHeaders,
-        })
+    let target: URL
+    try {
+        target = new URL(url.searchParams.get("url") ?? "")
+    } catch {
+        return proxyError(400, "missing or invalid url parameter")
     }
 
-    console.log(`[Proxy] Fetching: ${targetUrl}`)
+    let method = req.method
+    let body: Uint8Array<ArrayBuffer> | undefined
+    if (method !== "GET" && method !== "HEAD") {
+        try {
+            body = await readBody(req)
+        } catch (err: any) {
+            return err instanceof ProxyError
+                ? proxyError(err.status, err.message)
+                : proxyError(400, "request body could not be read")
+        }
+    }
+
+    const list = (name: string) =>
+        (params.get(name) || "").split(",").filter(Boolean)
+    const rules = { allow: list("allow"), deny: list("deny") }
+    const headers = scrubRequestHeaders(req.headers)
+    const signal = AbortSignal.timeout(PROXY_TIMEOUT_MS)
 
     try {
-        const proxyRes = await fetch(targetUrl)
-        const resHeaders = new Headers(proxyRes.headers)
-
-        // Remove problematic headers
-        resHeaders.delete("content-encoding")
-        resHeaders.delete("content-length")
-        resHeaders.delete("transfer-encoding")
-        resHeaders.delete("connection")
-
-        // Secure CORS: Only allow trusted origins
-        // Prevents Open Proxy / SSRF abuse from other sites
-        const origin = req.headers.get("origin")
-        const allowedOrigins = [
-            `http://localhost:${url.searchParams.get("port") || "3333"}`,
-            `http://127.0.0.1:${url.searchParams.get("port") || "3333"}`,
-            `http://sandbox.localhost:${url.searchParams.get("port") || "3333"}`,
-        ]
-
-        if (origin && allowedOrigins.some((o) => origin.startsWith(o))) {
-            resHeaders.set("Access-Control-Allow-Origin", origin)
+        let current = target
+        let response: Response
+        for (let hop = 0; ; hop++) {
+            // Every redirect hop passes the same checks as the first URL
+            const address = await checkTarget(current, rules, url.port)
+            console.log(`[Proxy] ${method} ${current.href}`)
+            response = await fetch(
+                ...pinToAddress(current, address, {
+                    method,
+                    headers,
+                    body,
+                    redirect: "manual",
+                    signal,
+                }),
+            )
+
+            const location = response.headers.get("Location")
+            if (!REDIRECT_STATUS.includes(response.status) || !location) break
+            if (hop >= PROXY_MAX_REDIRECTS) {
+                throw new ProxyError(502, "too many redirects")
+            }
+            // 303, and 301/302 after POST, continue as GET without a body
+            if (
+                response.status === 303 ||
+                ([301, 302].includes(response.status) && method === "POST")
+            ) {
+                method = "GET"
+                body = undefined
+                headers.delete("content-type")
+            }
+            current = new URL(location, current)
         }
 
-        return new Response(proxyRes.body, {
-            status: proxyRes.status,
-            statusText: proxyRes.statusText,
-            headers: resHeaders,
-        })
-    } catch (e: any) {
-        return new Response(`Proxy Error: ${e.message}`, {
-            status: 502,
-            headers: corsHeaders,
+        const declared = Number(response.headers.get("Content-Length"))
+        if (declared > PROXY_MAX_BYTES) {
+            throw new ProxyError(
+                502,
+                `response exceeds ${PROXY_MAX_BYTES} bytes`,
+            )
+        }
+
+        return new Response(response.body ? limitBody(response.body) : null, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: scrubResponseHeaders(response.headers),
         })
+    } catch (err: any) {
+        if (err instanceof ProxyError) {
+            console.warn(`[Proxy] Blocked ${target.href}: ${err.message}`)
+            return proxyError(err.status, err.message)
+        }
+        if (err?.name === "TimeoutError") {
+            return proxyError(
+                504,
+                `upstream timed out after ${PROXY_TIMEOUT_MS}ms`,
+            )
+        }
+        return proxyError(502, err?.message ?? "upstream request failed")
     }
-    */
 }
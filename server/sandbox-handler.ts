@@ -1,4 +1,5 @@
 import { join } from "path"
+import { EMBEDDERS } from "./embedders"
 
 /**
  * Sandbox Handler - Minimal file exposure
@@ -10,6 +11,7 @@ const SANDBOX_ROOT = join(process.cwd(), "src/sandbox")
 // Permissive CSP - Service Worker is the network security layer
 // CSP only controls execution (inline, eval) which we handle via iframe sandbox attribute
 // frame-src 'self' prevents user code from creating iframes to external origins
+// frame-ancestors: only the sandbox itself and allowlisted embedders
 const SANDBOX_CSP =
     "default-src * blob: data:; " +
     "script-src * 'unsafe-inline' 'unsafe-eval' blob:; " +
@@ -17,7 +19,8 @@ const SANDBOX_CSP =
     "img-src * blob: data:; " +
     "font-src * data:; " +
     "connect-src *; " +
-    "frame-src 'self';"
+    "frame-src 'self'; " +
+    `frame-ancestors 'self' ${EMBEDDERS.join(" ")};`
 
 export async function handleSandboxRequest(
     req: Request,
@@ -28,6 +31,7 @@ export async function handleSandboxRequest(
     // Only these 3 routes are allowed
     let filePath: string
     let isTypeScript = false
+    let format: "esm" | "iife" = "esm"
 
     if (
         path === "/" ||
@@ -46,6 +50,12 @@ export async function handleSandboxRequest(
     } else if (path === "/inner-frame.js") {
         filePath = join(SANDBOX_ROOT, "inner-frame.ts")
         isTypeScript = true
+    } else if (path === "/inner-telemetry.js") {
+        // Inner runtime as a classic script, injected into loadSrc() pages
+        // (captureContentDebug). IIFE keeps its internals off the page's globals.
+        filePath = join(SANDBOX_ROOT, "inner-frame.ts")
+        isTypeScript = true
+        format = "iife"
     } else if (path === "/utils.js") {
         filePath = join(SANDBOX_ROOT, "utils.ts")
         isTypeScript = true
@@ -71,10 +81,16 @@ export async function handleSandboxRequest(
         headers["Service-Worker-Allowed"] = "/"
         headers["Cache-Control"] = "no-store, no-cache, must-revalidate"
 
+        // An opaque-origin inner frame (opaqueOrigin) loads its module
+        // script cross-origin
+        if (path === "/inner-frame.js") {
+            headers["Access-Control-Allow-Origin"] = "*"
+        }
+
         const result = await Bun.build({
             entrypoints: [filePath],
             target: "browser",
-            format: "esm",
+            format,
         })
 
         if (result.success && result.outputs.length > 0) {
@@ -0,0 +1,26 @@
+/**
+ * Sandbox Hosts
+ * Recognizes the shared sandbox subdomain (`sandbox.<host>`) and the
+ * per-session subdomains of isolation="session" (`sandbox-<id>.<host>`).
+ */
+
+const SANDBOX_HOST_PATTERN = /^sandbox(-[a-z0-9-]+)?\./i
+
+/**
+ * True for a Host header or URL host served by the sandbox handler.
+ */
+export function isSandboxHost(host: string): boolean {
+    return SANDBOX_HOST_PATTERN.test(host)
+}
+
+/**
+ * True for an Origin header value that belongs to a sandbox subdomain.
+ */
+export function isSandboxOrigin(origin: string | null): boolean {
+    if (!origin) return false
+    try {
+        return isSandboxHost(new URL(origin).host)
+    } catch {
+        return false
+    }
+}
@@ -0,0 +1,105 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { isSandboxOrigin } from "./sandbox-hosts"
+import { isAllowedEmbedder, logBlockedEmbedder } from "./embedders"
+import {
+    CONFIG_PARAM,
+    SIGN_PATH,
+    decodeConfigPayload,
+    type SignedConfig,
+} from "../src/lib/signed-config"
+
+/**
+ * Signed Sandbox Configuration
+ * The sandbox pages, and the CSP derived from their params, are only
+ * served for configurations this server signed. A token binds the params
+ * to the origin that requested it (the embedding host) and expires.
+ */
+
+// A random secret invalidates all tokens on restart. Set SANDBOX_SECRET
+// when several server processes serve the same sandbox origin.
+const SECRET = process.env.SANDBOX_SECRET || randomBytes(32).toString("hex")
+const CONFIG_TTL_MS =
+    parseInt(process.env.SANDBOX_CONFIG_TTL || "600", 10) * 1000
+
+function hmac(payload: string): string {
+    return createHmac("sha256", SECRET).update(payload).digest("base64url")
+}
+
+export function signConfig(params: URLSearchParams, host: string): string {
+    const config: SignedConfig = {
+        params: params.toString(),
+        host,
+        expires: Date.now() + CONFIG_TTL_MS,
+    }
+    const payload = Buffer.from(JSON.stringify(config)).toString("base64url")
+    return `${payload}.${hmac(payload)}`
+}
+
+/**
+ * Returns the config of a valid, unexpired token, otherwise null.
+ * `ignoreExpiry` is for requests of a sandbox page that is already running
+ * (CORS proxy): the signature still has to match.
+ */
+export function verifyConfig(
+    token: string | null,
+    ignoreExpiry = false,
+): SignedConfig | null {
+    const [payload, signature] = token?.split(".") ?? []
+    if (!payload || !signature) return null
+
+    const expected = Buffer.from(hmac(payload))
+    const actual = Buffer.from(signature)
+    if (
+        expected.length !== actual.length ||
+        !timingSafeEqual(expected, actual)
+    ) {
+        return null
+    }
+
+    const config = decodeConfigPayload(payload)
+    if (!config || (!ignoreExpiry && config.expires <= Date.now())) return null
+    return config
+}
+
+/**
+ * POST /_sandbox/sign (on the sandbox origin)
+ * Body: the sandbox query params (application/x-www-form-urlencoded).
+ * The host origin is the browser-set Origin header, never a param.
+ * Only allowlisted embedders get tokens (server/embedders.ts). Sandbox
+ * origins never do: user code could otherwise frame its own sandbox with a
+ * looser policy.
+ */
+export async function handleSignRequest(req: Request): Promise<Response> {
+    const origin = req.headers.get("Origin")
+    const headers = {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+        "Access-Control-Allow-Origin": origin || "*",
+        Vary: "Origin",
+    }
+
+    if (req.method !== "POST") {
+        return Response.json(
+            { error: "Method not allowed" },
+            { status: 405, headers },
+        )
+    }
+    if (!origin || origin === "null" || isSandboxOrigin(origin)) {
+        return Response.json(
+            { error: `Origin ${origin} cannot embed the sandbox` },
+            { status: 403, headers },
+        )
+    }
+    if (!isAllowedEmbedder(origin)) {
+        logBlockedEmbedder(origin, SIGN_PATH)
+        return Response.json(
+            { error: `Origin ${origin} is not in the embedder allowlist` },
+            { status: 403, headers },
+        )
+    }
+
+    const params = new URLSearchParams(await req.text())
+    params.delete("host")
+    params.delete(CONFIG_PARAM)
+    return Response.json({ token: signConfig(params, origin) }, { headers })
+}
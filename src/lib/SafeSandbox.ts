@@ -3,40 +3,191 @@
  * A secure, isolated JavaScript sandbox using iFrame subdomains and Service Workers.
  */
 
-import { type NetworkRules, type LogMessage } from "./types"
+import {
+    type NetworkRules,
+    type LogMessage,
+    type ExecutionResult,
+    type ExecuteOptions,
+    type TimeoutDetail,
+    type CacheEntry,
+    type VirtualFile,
+    type StorageMode,
+    type StorageUsage,
+    type ServiceWorkerHealth,
+    type TamperDetail,
+    type InterceptedRequest,
+    type RequestDecision,
+    type RequestHandler,
+    type RequestHookOptions,
+    type JournalEntry,
+    type NetworkFixture,
+    type NetworkFixtureBundle,
+    type NetworkFixturePolicy,
+    type FileContent,
+    type FSChange,
+    type FSEntry,
+} from "./types"
+import {
+    encodeConnectionPolicy,
+    resolveConnectionPolicy,
+    validateConnectionRules,
+} from "./connections"
+import { encodeCSPRules, validateCSPRules } from "./csp"
+import { validateAllowRules } from "./allow-rules"
+import { validateFixturePolicy } from "./fixtures"
+import { signSandboxUrl } from "./signed-config"
+import { toHar, type Har } from "./har"
+import { SandboxFS, validateFiles } from "./virtual-fs"
+import {
+    encodeExecutionPolicy,
+    getSandboxTokens,
+    resolveExecutionPolicy,
+} from "./execution"
+
+interface PendingCall {
+    resolve: (value: unknown) => void
+    reject: (reason: unknown) => void
+    timer?: ReturnType<typeof setTimeout>
+    type?: string
+}
+
+// Infrastructure requests (cache, storage, ...) answered by the outer frame.
+// A request lost to a reload rejects after REQUEST_TIMEOUT_MS.
+const REQUEST_TIMEOUT_MS = 10000
+
+// Binary file bodies travel to the SW as Blobs: structured clone passes a
+// Blob by reference, so resending the rules (every reconnect) copies nothing.
+// Each ArrayBuffer is wrapped once.
+const fileBlobs = new WeakMap<ArrayBuffer, Blob>()
+
+function toPortableFile(file: string | VirtualFile): string | VirtualFile {
+    if (typeof file === "string" || !(file.body instanceof ArrayBuffer)) {
+        return file
+    }
+    let blob = fileBlobs.get(file.body)
+    if (!blob) {
+        blob = new Blob([file.body])
+        fileBlobs.set(file.body, blob)
+    }
+    return { ...file, body: blob }
+}
+
+function toPortableFiles(
+    files: Record<string, string | VirtualFile>,
+): Record<string, string | VirtualFile> {
+    const portable: Record<string, string | VirtualFile> = {}
+    for (const [path, file] of Object.entries(files)) {
+        portable[path] = toPortableFile(file)
+    }
+    return portable
+}
+
+// Watchdog: the host pings the inner frame and recreates the sandbox
+// when a PING stays unanswered for HEARTBEAT_TIMEOUT_MS (e.g. `while(true){}`)
+const HEARTBEAT_INTERVAL_MS = 1000
+const HEARTBEAT_TIMEOUT_MS = 5000
+
+// SW health monitor: the host asks the SW (through the outer frame) for a
+// signed status and repairs or quarantines the sandbox on mismatch
+const HEALTH_CHECK_INTERVAL_MS = 5000
 
 class SafeSandbox extends HTMLElement {
+    /**
+     * Virtual files of the sandbox: writeFile, readFile, mkdir, rm, rename,
+     * ls and watch. Changes reach the SW as incremental patches; user code
+     * observes them as `fschange` events on its window.
+     */
+    readonly fs: SandboxFS
     private _iframe: HTMLIFrameElement
     private _networkRules: NetworkRules
     private _sandboxOrigin: string
+    private _sessionOrigin: string | null
+    private _pendingExecutions: Map<string, PendingCall>
+    private _pendingRequests: Map<string, PendingCall>
+    private _heartbeatTimer: ReturnType<typeof setInterval> | null
+    private _port: MessagePort | null
+    private _sessionNonce: string
+    private _src: string | null
+    private _outbox: unknown[]
+    // Send time of the unanswered PING, null once its PONG arrived
+    private _pingSentAt: number | null
+    private _healthTimer: ReturnType<typeof setInterval> | null
+    private _healthCheckPending: boolean
+    private _healthKey: ArrayBuffer
+    private _healthCryptoKey: Promise<CryptoKey> | null
+    private _rulesVersion: number
+    private _quarantined: boolean
+    private _frameConfig: string
+    private _navigation: number
+    private _requestHandler: RequestHandler | null
+    private _requestHookOptions: RequestHookOptions
+    // Scopes the SW's persisted copy of `fs` to this instance
+    private _fsSession: string
 
     static get observedAttributes(): string[] {
-        return ["sandbox-origin", "src", "script-unsafe"]
+        return ["sandbox-origin", "src", "script-unsafe", "isolation"]
     }
 
     constructor() {
         super()
         this.attachShadow({ mode: "open" })
 
-        this._iframe = document.createElement("iframe")
-        this._iframe.style.width = "100%"
-        this._iframe.style.height = "100%"
-        this._iframe.style.border = "none"
+        this._onMessage = this._onMessage.bind(this)
+        this._onIframeLoad = this._onIframeLoad.bind(this)
+        this._iframe = this._createIframe()
         this.shadowRoot!.appendChild(this._iframe)
 
-        this._onMessage = this._onMessage.bind(this)
         this._networkRules = {}
+        this._fsSession = crypto.randomUUID()
+        this.fs = new SandboxFS((ops, changes, version) =>
+            this._request<boolean>("FS_PATCH", {
+                ops: ops.map((op) =>
+                    op.op === "write"
+                        ? { ...op, file: toPortableFile(op.file) }
+                        : op,
+                ),
+                changes,
+                session: this._fsSession,
+                version,
+            }).then((applied) => {
+                // The SW holds another tree (restarted, missed a patch)
+                if (!applied) this._sendNetworkRules()
+            }),
+        )
         this._sandboxOrigin = ""
+        this._sessionOrigin = null
+        this._pendingExecutions = new Map()
+        this._pendingRequests = new Map()
+        this._heartbeatTimer = null
+        this._pingSentAt = null
+        this._healthTimer = null
+        this._healthCheckPending = false
+        this._healthKey = crypto.getRandomValues(new Uint8Array(32)).buffer
+        this._healthCryptoKey = null
+        this._rulesVersion = 0
+        this._quarantined = false
+        this._frameConfig = ""
+        this._navigation = 0
+        this._requestHandler = null
+        this._requestHookOptions = {}
+        this._port = null
+        this._sessionNonce = ""
+        this._src = null
+        this._outbox = []
     }
 
     connectedCallback(): void {
-        window.addEventListener("message", this._onMessage)
         this._updateSandboxOrigin()
         this._updateIframeSource()
     }
 
     disconnectedCallback(): void {
-        window.removeEventListener("message", this._onMessage)
+        this._stopWatchdog()
+        this._stopHealthMonitor()
+        this._port?.close()
+        this._port = null
+        // A reconnected element gets a fresh session origin
+        this._releaseSessionOrigin()
     }
 
     attributeChangedCallback(
@@ -46,55 +197,276 @@ class SafeSandbox extends HTMLElement {
     ): void {
         if (oldValue === newValue) return
 
-        if (name === "sandbox-origin") {
+        if (name === "sandbox-origin" || name === "isolation") {
             this._updateSandboxOrigin()
             this._updateIframeSource()
         } else if (name === "script-unsafe") {
             this._updateIframeSource()
         } else if (name === "src") {
-            // Future: load user content in sandbox
+            if (newValue) {
+                this.loadSrc(newValue)
+            } else {
+                // Back to the sandbox runtime page
+                this._src = null
+                this._updateIframeSource()
+            }
         }
     }
 
     private _updateSandboxOrigin(): void {
         const attr = this.getAttribute("sandbox-origin")
+        let origin: string
         if (attr) {
-            this._sandboxOrigin = attr
+            origin = attr
         } else {
             // Default: derive from current origin
             const currentHost = window.location.hostname
             const port = window.location.port
-            this._sandboxOrigin = `http://sandbox.${currentHost}${port ? ":" + port : ""}`
+            origin = `http://sandbox.${currentHost}${port ? ":" + port : ""}`
+        }
+
+        if (this.getAttribute("isolation") !== "session") {
+            this._releaseSessionOrigin()
+            this._sandboxOrigin = origin
+            return
         }
+
+        // isolation="session": sandbox-<id>.<host> gives this instance its
+        // own storage, caches and Service Worker
+        if (!this._sessionOrigin) {
+            const url = new URL(origin)
+            const host = url.hostname.replace(/^sandbox\./, "")
+            url.hostname = `sandbox-${crypto.randomUUID()}.${host}`
+            this._sessionOrigin = url.origin
+        }
+        this._sandboxOrigin = this._sessionOrigin
     }
 
     /**
-     * Executes JavaScript code within the sandbox.
+     * Drops the current session origin (isolation="session") and removes
+     * its Service Worker and caches. The SW can only be unregistered from
+     * its own origin, so a hidden cleanup frame is loaded there.
      */
-    execute(code: string): void {
-        if (!this._iframe.contentWindow) return
-        this._iframe.contentWindow.postMessage(
-            { type: "EXECUTE", code },
-            this._sandboxOrigin,
+    private _releaseSessionOrigin(): void {
+        const origin = this._sessionOrigin
+        if (!origin) return
+        this._sessionOrigin = null
+
+        const frame = document.createElement("iframe")
+        frame.hidden = true
+        frame.setAttribute("sandbox", "allow-scripts allow-same-origin")
+        const params = new URLSearchParams({ cleanup: "true" })
+
+        const nonce = crypto.randomUUID()
+        const channel = new MessageChannel()
+        const done = () => {
+            clearTimeout(timer)
+            channel.port1.close()
+            frame.remove()
+        }
+        const timer = setTimeout(done, REQUEST_TIMEOUT_MS)
+        channel.port1.onmessage = (event) => {
+            if (
+                event.data?.type === "CLEANUP_COMPLETE" &&
+                event.data.nonce === nonce
+            ) {
+                done()
+            }
+        }
+        frame.addEventListener(
+            "load",
+            () => {
+                frame.contentWindow?.postMessage(
+                    { type: "CONNECT", nonce },
+                    origin,
+                    [channel.port2],
+                )
+            },
+            { once: true },
         )
+        signSandboxUrl(`${origin}/outer-frame.html?${params}`).then((src) => {
+            frame.src = src
+            document.body.appendChild(frame)
+        }, done)
+    }
+
+    /**
+     * Executes JavaScript code within the sandbox.
+     * Resolves with the serialized return value (awaited if it is a Promise)
+     * and rejects with the serialized error thrown by the code.
+     * With `timeoutMs`, a run that has not settled in time is killed by
+     * recreating the sandbox.
+     */
+    execute(code: string, options: ExecuteOptions = {}): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            if (!this._iframe.contentWindow) {
+                reject(new Error("Sandbox iframe is not available"))
+                return
+            }
+            if (!this._scriptsEnabled()) {
+                reject(
+                    new Error("Scripts are disabled by the execution policy"),
+                )
+                return
+            }
+            if (this._quarantined) {
+                reject(new Error("Sandbox is quarantined after tampering"))
+                return
+            }
+
+            // Correlation id so concurrent executions can be told apart
+            const id = crypto.randomUUID()
+            const pending: PendingCall = { resolve, reject }
+            if (options.timeoutMs !== undefined) {
+                const timeoutMs = options.timeoutMs
+                pending.timer = setTimeout(() => {
+                    this._handleUnresponsive({
+                        reason: "execution",
+                        executionId: id,
+                        timeoutMs,
+                    })
+                }, timeoutMs)
+            }
+            this._pendingExecutions.set(id, pending)
+            this._post({ type: "EXECUTE", id, code })
+        })
+    }
+
+    /**
+     * Deletes the Service Worker response cache used by `cacheStrategy`.
+     */
+    clearCache(): Promise<void> {
+        return this._request("CACHE_CLEAR").then(() => undefined)
+    }
+
+    /**
+     * Lists the responses currently held in the Service Worker cache.
+     */
+    inspectCache(): Promise<CacheEntry[]> {
+        return this._request<CacheEntry[]>("CACHE_INSPECT")
+    }
+
+    /**
+     * Exports the network activity recorded by the Service Worker as a
+     * HAR 1.2 document: request and response headers, timings, sizes and
+     * the source of each response (`_source`: network, cache, virtual,
+     * onRequest, blocked, csp, error).
+     */
+    exportHar(): Promise<Har> {
+        return this._request<JournalEntry[]>("NETWORK_JOURNAL").then(toHar)
+    }
+
+    /**
+     * Returns the fixtures recorded with `network: { mode: "record" }`,
+     * ready to be passed back as `network: { mode: "replay", fixtures }`.
+     */
+    exportFixtures(): Promise<NetworkFixtureBundle> {
+        return this._request<NetworkFixtureBundle>("FIXTURES_EXPORT")
+    }
+
+    /**
+     * Wipes localStorage, sessionStorage, IndexedDB, CacheStorage and
+     * cookies of the sandbox origin. Resolves when the wipe has finished.
+     */
+    clearStorage(): Promise<void> {
+        return this._request("STORAGE_CLEAR").then(() => undefined)
+    }
+
+    /**
+     * Reports the storage used by the sandbox origin
+     * (`navigator.storage.estimate()`) and the configured storageQuota.
+     */
+    estimateStorage(): Promise<StorageUsage> {
+        return this._request<StorageUsage>("STORAGE_ESTIMATE")
     }
 
     /**
-     * Loads a URL inside the sandbox (future: with optional debug capture).
+     * Unregisters the sandbox Service Worker.
+     * Completion is reported as a `message` event with type RESET_COMPLETE.
+     */
+    reset(): void {
+        this._post({ type: "RESET" })
+    }
+
+    /**
+     * Loads a URL inside the sandbox, replacing the inner frame document.
+     * Virtual files and same-origin paths load directly; external URLs must
+     * be in `allow` and are fetched by the SW under the same CSP.
+     * Dispatches `load` or `error` (detail: { url, status?, error? }).
+     * The page survives frame rebuilds (e.g. rule changes).
      */
     loadSrc(url: string): void {
-        // Future implementation
-        console.log("[SafeSandbox] loadSrc not yet implemented:", url)
+        this._src = url
+        this._port?.postMessage({ type: "LOAD_SRC", url })
+    }
+
+    /**
+     * Registers an async handler for requests of the sandbox page that
+     * passed the static rules (SW -> outer frame -> host). It returns a
+     * RequestDecision: allow, block with a reason, rewrite, or respond with
+     * a synthetic response; returning nothing allows the request. Without a
+     * decision within `timeoutMs` (default 5000), or when the handler
+     * throws, the static rules decide alone. Pass null to remove it.
+     */
+    onRequest(
+        handler: RequestHandler | null,
+        options: RequestHookOptions = {},
+    ): void {
+        this._requestHandler = handler
+        this._requestHookOptions = options
+        this._sendNetworkRules()
     }
 
     /**
      * Sets network rules for the sandbox.
      * - CSP (connect-src) is set via URL params -> server generates CSP header
-     * - Virtual Files are sent via postMessage to Service Worker
+     * - Virtual Files and SW-enforced limits are sent via postMessage to the Service Worker
+     * - Throws on malformed `allow`/`deny`/`websockets`/`eventSource`
+     *   entries, if `csp` would loosen the sandbox CSP or on a malformed
+     *   `network` fixture policy (see validateAllowRules,
+     *   validateConnectionRules, validateCSPRules, validateFixturePolicy)
      */
     setNetworkRules(rules: NetworkRules): void {
+        // The server refuses the same rules, fail early with the reason
+        const ruleProblems = [
+            ...validateAllowRules(rules),
+            ...validateConnectionRules(rules),
+        ]
+        if (ruleProblems.length > 0) {
+            throw new Error(`Invalid NetworkRules: ${ruleProblems.join("; ")}`)
+        }
+        if (rules.csp) {
+            const problems = validateCSPRules(rules.csp)
+            if (problems.length > 0) {
+                throw new Error(
+                    `Invalid NetworkRules.csp: ${problems.join("; ")}`,
+                )
+            }
+        }
+
+        if (rules.network) {
+            const problems = validateFixturePolicy(rules.network)
+            if (problems.length > 0) {
+                throw new Error(
+                    `Invalid NetworkRules.network: ${problems.join("; ")}`,
+                )
+            }
+        }
+
+        // fs.reset() would throw halfway through the update
+        if (rules.files) {
+            const problems = validateFiles(rules.files)
+            if (problems.length > 0) {
+                throw new Error(
+                    `Invalid NetworkRules.files: ${problems.join("; ")}`,
+                )
+            }
+        }
+
         const oldRules = this._networkRules
         this._networkRules = rules
+        // `files` replaces the virtual filesystem; without it fs keeps its tree
+        if (rules.files) this.fs.reset(rules.files)
 
         // Sync attribute with rule
         if (rules.scriptUnsafe) {
@@ -106,13 +478,14 @@ class SafeSandbox extends HTMLElement {
         // Calculate new source URL
         const newSrc = this._calculateIframeSrc()
 
-        // Only reload if the URL (and thus the CSP) would change
-        if (this._iframe.src !== newSrc) {
-            this._iframe.src = newSrc
+        // Only reload if the URL (and thus the CSP or execution policy)
+        // would change, or to leave quarantine
+        if (this._frameConfig !== newSrc || this._quarantined) {
+            this._updateIframeSource()
         } else {
-            // If URL didn't change (e.g. only virtual files changed),
-            // we still need to send the files to the SW if it's already ready
-            this._sendVirtualFiles()
+            // If URL didn't change (e.g. only virtual files or SW-enforced
+            // limits changed), we still need to send the rules to the SW
+            this._sendNetworkRules()
         }
     }
 
@@ -127,62 +500,566 @@ class SafeSandbox extends HTMLElement {
             params.set("allow", allowedDomains.join(","))
         }
 
-        // Pass host origin to allow robust messaging back
-        params.set("host", window.location.origin)
+        // Deny rules and the proxy opt-in: the server's CORS proxy enforces
+        // them from the signed config
+        const deniedDomains = this._networkRules.deny || []
+        if (deniedDomains.length > 0) {
+            params.set("deny", deniedDomains.join(","))
+        }
+        if (this._networkRules.proxyUrl) {
+            params.set("proxy", "true")
+        }
 
         // Pass unsafe flag if attribute is present
         if (this.hasAttribute("script-unsafe")) {
             params.set("unsafe", "true")
         }
 
+        // Storage mode (wiped by the outer frame, blocked by the inner frame)
+        if (
+            this._networkRules.storage &&
+            this._networkRules.storage !== "persistent"
+        ) {
+            params.set("storage", this._networkRules.storage)
+        }
+
+        // WebSocket / EventSource / WebRTC policy (CSP + inner frame guards)
+        encodeConnectionPolicy(
+            resolveConnectionPolicy(this._networkRules),
+            params,
+        )
+
+        // Per-directive CSP sources (validated again by the server)
+        if (this._networkRules.csp) {
+            params.set("csp", encodeCSPRules(this._networkRules.csp))
+        }
+
+        // Opaque-origin inner frame with fetch proxy
+        if (this._networkRules.opaqueOrigin) {
+            params.set("opaque", "true")
+        }
+
+        // Execution policy -> inner frame sandbox tokens (set by outer frame)
+        if (this._networkRules.execution) {
+            params.set(
+                "exec",
+                encodeExecutionPolicy(this._networkRules.execution),
+            )
+        }
+
         const queryString = params.toString()
         const allowParam = queryString ? `?${queryString}` : ""
         return `${this._sandboxOrigin}/outer-frame.html${allowParam}`
     }
 
-    private _sendVirtualFiles(): void {
-        if (!this._iframe.contentWindow) return
-        if (!this._networkRules.files) return
-        this._iframe.contentWindow.postMessage(
-            {
-                type: "SET_NETWORK_RULES",
-                rules: { files: this._networkRules.files },
+    /**
+     * Sends the full rule set to the SW: virtual files (the fs tree) plus
+     * the limits that CSP cannot express (allowMethods, allowProtocols,
+     * maxContentLength).
+     */
+    private _sendNetworkRules(): void {
+        this._post({
+            type: "SET_NETWORK_RULES",
+            rules: {
+                ...this._networkRules,
+                files: toPortableFiles(this.fs.snapshot()),
             },
+            // The SW reports this version, signed with the key, to the
+            // health monitor
+            rulesVersion: ++this._rulesVersion,
+            healthKey: this._healthKey,
+            fs: { session: this._fsSession, version: this.fs.version },
+            requestHook: this._requestHandler
+                ? { timeoutMs: this._requestHookOptions.timeoutMs }
+                : null,
+        })
+    }
+
+    /**
+     * Answers a request offered by the SW with the handler's decision.
+     * The SW enforces the timeout.
+     */
+    private _answerRequest(request: InterceptedRequest): void {
+        const handler = this._requestHandler
+        Promise.resolve()
+            .then(() => (handler ? handler(request) : undefined))
+            .then(
+                (decision) =>
+                    this._post({
+                        type: "INTERCEPT_DECISION",
+                        id: request.id,
+                        decision: decision ?? { action: "allow" },
+                    }),
+                (err) =>
+                    this._post({
+                        type: "INTERCEPT_DECISION",
+                        id: request.id,
+                        error: `handler failed: ${err?.message ?? err}`,
+                    }),
+            )
+    }
+
+    /**
+     * Sends a request to the outer frame and resolves with its RESPONSE.
+     */
+    private _request<T = unknown>(
+        type: string,
+        payload: Record<string, unknown> = {},
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const id = crypto.randomUUID()
+            const timer = setTimeout(() => {
+                this._pendingRequests.delete(id)
+                reject(new Error(`Sandbox request ${type} timed out`))
+            }, REQUEST_TIMEOUT_MS)
+            this._pendingRequests.set(id, {
+                resolve: resolve as (value: unknown) => void,
+                reject,
+                timer,
+                type,
+            })
+            this._post({ ...payload, type, id })
+        })
+    }
+
+    /**
+     * Sends a message to the outer frame over the dedicated port.
+     * Messages sent before the handshake are queued.
+     */
+    private _post(message: unknown): void {
+        if (this._port) {
+            this._port.postMessage(message)
+        } else {
+            this._outbox.push(message)
+        }
+    }
+
+    /**
+     * Handshake: every new sandbox document gets a fresh MessageChannel.
+     * The port is transferred once; all later traffic bypasses
+     * window.postMessage so other sandbox code cannot inject or sniff it.
+     * The session nonce lets the outer frame authenticate infrastructure
+     * messages (see `_onMessage`).
+     */
+    private _onIframeLoad(): void {
+        const contentWindow = this._iframe.contentWindow
+        if (!this._sandboxOrigin || !contentWindow) return
+
+        this._port?.close()
+        const channel = new MessageChannel()
+        this._port = channel.port1
+        this._port.onmessage = this._onMessage
+        this._sessionNonce = crypto.randomUUID()
+        contentWindow.postMessage(
+            { type: "CONNECT", nonce: this._sessionNonce },
             this._sandboxOrigin,
+            [channel.port2],
         )
+
+        while (this._outbox.length > 0) {
+            this._port.postMessage(this._outbox.shift())
+        }
+
+        if (this._src) {
+            this._port.postMessage({ type: "LOAD_SRC", url: this._src })
+        }
+    }
+
+    private _createIframe(): HTMLIFrameElement {
+        const iframe = document.createElement("iframe")
+        iframe.style.width = "100%"
+        iframe.style.height = "100%"
+        iframe.style.border = "none"
+        iframe.addEventListener("load", this._onIframeLoad)
+        return iframe
     }
 
     private _updateIframeSource(): void {
         if (this._sandboxOrigin) {
+            this._prepareReload()
+            this._quarantined = false
+            // The inner frame can never exceed the outer frame's capabilities,
+            // so the outer frame gets the same tokens. It always needs scripts
+            // to run the relay.
             this._iframe.setAttribute(
                 "sandbox",
-                "allow-scripts allow-forms allow-popups allow-modals allow-same-origin",
+                getSandboxTokens({
+                    ...this._networkRules.execution,
+                    scripts: true,
+                }),
             )
-            this._iframe.src = this._calculateIframeSrc()
+            this._loadFrame(this._calculateIframeSrc())
+        }
+    }
+
+    /**
+     * Navigates the iframe to a sandbox page. The server only serves pages
+     * for configurations it signed, so the params are exchanged for a
+     * token first. Signing failures are reported as an `error` event.
+     */
+    private _loadFrame(src: string): void {
+        this._frameConfig = src
+        const iframe = this._iframe
+        const navigation = ++this._navigation
+        signSandboxUrl(src).then(
+            (signedSrc) => {
+                // A newer navigation or a rebuilt iframe wins
+                if (
+                    navigation === this._navigation &&
+                    iframe === this._iframe
+                ) {
+                    iframe.src = signedSrc
+                }
+            },
+            (err) =>
+                this.dispatchEvent(
+                    new CustomEvent("error", {
+                        detail: { url: src, error: err.message },
+                    }),
+                ),
+        )
+    }
+
+    /**
+     * Called before the sandbox document is replaced: executions and
+     * requests in flight can never settle, and the watchdog restarts once
+     * the new frame is READY. Pending fs patches count as delivered, since
+     * the rule sync after READY carries the whole tree.
+     */
+    private _prepareReload(): void {
+        this._stopWatchdog()
+        this._stopHealthMonitor()
+        this._port?.close()
+        this._port = null
+        this._rejectPendingCalls("Sandbox was reloaded")
+
+        for (const pending of this._pendingRequests.values()) {
+            clearTimeout(pending.timer)
+            if (pending.type === "FS_PATCH") {
+                pending.resolve(true)
+            } else {
+                pending.reject(new Error("Sandbox was reloaded"))
+            }
+        }
+        this._pendingRequests.clear()
+    }
+
+    /**
+     * Tears down the unresponsive iframe and creates a fresh one.
+     * Removing the frame is the only way to stop synchronous runaway code.
+     */
+    private _handleUnresponsive(detail: TimeoutDetail): void {
+        const message =
+            detail.reason === "execution"
+                ? `Execution timed out after ${detail.timeoutMs}ms`
+                : `Sandbox stopped responding for ${detail.timeoutMs}ms`
+
+        if (detail.executionId) {
+            const pending = this._pendingExecutions.get(detail.executionId)
+            if (pending) {
+                this._pendingExecutions.delete(detail.executionId)
+                pending.reject(this._timeoutError(message))
+            }
+        }
+
+        this._iframe.remove()
+        this._iframe = this._createIframe()
+        this.shadowRoot!.appendChild(this._iframe)
+        this._updateIframeSource()
+
+        this.dispatchEvent(
+            new CustomEvent<TimeoutDetail>("timeout", { detail }),
+        )
+    }
+
+    private _rejectPendingCalls(message: string): void {
+        for (const pending of this._pendingExecutions.values()) {
+            clearTimeout(pending.timer)
+            pending.reject(this._timeoutError(message))
         }
+        this._pendingExecutions.clear()
     }
 
+    private _timeoutError(message: string): Record<string, unknown> {
+        // Same shape as errors serialized by the inner frame
+        return { _type: "Error", name: "TimeoutError", message }
+    }
+
+    private _scriptsEnabled(): boolean {
+        return resolveExecutionPolicy(this._networkRules.execution).scripts
+    }
+
+    private _startWatchdog(): void {
+        // Without scripts the inner frame can never answer a heartbeat
+        if (!this._scriptsEnabled()) return
+        this._pingSentAt = null
+        if (this._heartbeatTimer) return
+
+        let lastTick = Date.now()
+        this._heartbeatTimer = setInterval(() => {
+            const now = Date.now()
+            // A late tick means the host itself was paused (throttled
+            // background tab, system sleep): the PING gets a fresh chance
+            const hostPaused = now - lastTick > HEARTBEAT_TIMEOUT_MS
+            lastTick = now
+
+            if (this._pingSentAt !== null && !hostPaused) {
+                if (now - this._pingSentAt > HEARTBEAT_TIMEOUT_MS) {
+                    this._handleUnresponsive({
+                        reason: "heartbeat",
+                        timeoutMs: HEARTBEAT_TIMEOUT_MS,
+                    })
+                }
+                return
+            }
+            this._pingSentAt = now
+            this._port?.postMessage({ type: "PING", timestamp: now })
+        }, HEARTBEAT_INTERVAL_MS)
+    }
+
+    private _stopWatchdog(): void {
+        if (this._heartbeatTimer) {
+            clearInterval(this._heartbeatTimer)
+            this._heartbeatTimer = null
+        }
+    }
+
+    private _startHealthMonitor(): void {
+        if (this._healthTimer) return
+        this._healthTimer = setInterval(
+            () => this._checkHealth(),
+            HEALTH_CHECK_INTERVAL_MS,
+        )
+    }
+
+    private _stopHealthMonitor(): void {
+        if (this._healthTimer) {
+            clearInterval(this._healthTimer)
+            this._healthTimer = null
+        }
+    }
+
+    /**
+     * Asks the outer frame for the SW's state and a status signed with this
+     * element's key over a fresh challenge. A missing or uncontrolling SW,
+     * a bad signature or an old rules version means the firewall cannot be
+     * trusted (`_handleTamper`). Requests that fail are left to the
+     * heartbeat watchdog.
+     */
+    private async _checkHealth(): Promise<void> {
+        if (this._healthCheckPending) return
+        this._healthCheckPending = true
+        const challenge = crypto.randomUUID()
+        const rulesVersion = this._rulesVersion
+
+        try {
+            const health = await this._request<ServiceWorkerHealth>(
+                "HEALTH_CHECK",
+                { challenge },
+            )
+            if (!health.supported) return
+
+            let reason: TamperDetail["reason"] | null = null
+            if (!health.registered || !health.active) {
+                reason = "missing"
+            } else if (!health.controlled) {
+                reason = "uncontrolled"
+            } else if (!health.status?.signature) {
+                // SW restarted (state lost) or rules sent without a key
+                reason = "stale-rules"
+            } else if (!(await this._verifyStatus(challenge, health.status))) {
+                reason = "invalid-signature"
+            } else if (health.status.rulesVersion !== rulesVersion) {
+                reason = "stale-rules"
+            }
+            if (reason) this._handleTamper(reason, health)
+        } catch {
+            // Reload or unresponsive frame
+        } finally {
+            this._healthCheckPending = false
+        }
+    }
+
+    private _verifyStatus(
+        challenge: string,
+        status: NonNullable<ServiceWorkerHealth["status"]>,
+    ): Promise<boolean> {
+        this._healthCryptoKey ??= crypto.subtle.importKey(
+            "raw",
+            this._healthKey,
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["verify"],
+        )
+        return this._healthCryptoKey.then((key) =>
+            crypto.subtle.verify(
+                "HMAC",
+                key,
+                status.signature!,
+                new TextEncoder().encode(`${challenge}:${status.rulesVersion}`),
+            ),
+        )
+    }
+
+    /**
+     * Stale rules are always resent: the browser may have stopped the SW,
+     * which loses its state. Otherwise `tamperResponse` decides between
+     * repairing (re-register, resend rules) and quarantining the sandbox.
+     */
+    private _handleTamper(
+        reason: TamperDetail["reason"],
+        health: ServiceWorkerHealth,
+    ): void {
+        const quarantine = this._networkRules.tamperResponse === "quarantine"
+        let action: TamperDetail["action"]
+        if (reason === "stale-rules") {
+            action = "resync"
+        } else if (quarantine) {
+            action = "quarantine"
+        } else {
+            action = reason === "invalid-signature" ? "resync" : "reregister"
+        }
+
+        this.dispatchEvent(
+            new CustomEvent<TamperDetail>("tamper", {
+                detail: { area: "security", reason, action, health },
+            }),
+        )
+
+        if (action === "resync") {
+            this._sendNetworkRules()
+        } else if (action === "reregister") {
+            this._request("SW_REPAIR").then(
+                () => this._sendNetworkRules(),
+                () => this._quarantine(),
+            )
+        } else {
+            this._quarantine()
+        }
+    }
+
+    /**
+     * Tears the sandbox document down after tampering. It stays empty until
+     * it is rebuilt (setNetworkRules, sandbox-origin, ...).
+     */
+    private _quarantine(): void {
+        this._prepareReload()
+        this._quarantined = true
+        this._iframe.remove()
+        this._iframe = this._createIframe()
+        this.shadowRoot!.appendChild(this._iframe)
+    }
+
+    /**
+     * Messages tagged with the session nonce come from the outer frame or
+     * the Service Worker. Anything else was relayed from the inner frame and
+     * may be forged by user code, so it is exposed with `trusted: false`.
+     */
     private _onMessage(event: MessageEvent): void {
-        if (!this._sandboxOrigin) return
-        if (event.origin !== this._sandboxOrigin) return
+        if (!event.data || typeof event.data !== "object") return
 
-        const data = event.data
-        if (!data) return
+        const { nonce, ...data } = event.data
+        const trusted = !!this._sessionNonce && nonce === this._sessionNonce
 
-        if (data === "READY") {
+        if (data.type === "READY") {
+            if (!trusted) return
+            this._startWatchdog()
+            this._startHealthMonitor()
             this.dispatchEvent(new CustomEvent("ready"))
-            // Send Virtual Files to SW after iframe is ready
-            this._sendVirtualFiles()
+            // Send rules (incl. Virtual Files) to SW after iframe is ready
+            this._sendNetworkRules()
         } else if (data.type === "LOG") {
             this.dispatchEvent(
-                new CustomEvent<LogMessage>("log", { detail: data }),
+                new CustomEvent<LogMessage>("log", {
+                    detail: { ...data, trusted },
+                }),
             )
+        } else if (data.type === "EXECUTION_RESULT") {
+            this._settleExecution(data)
+        } else if (data.type === "LOADED" || data.type === "LOAD_ERROR") {
+            if (!trusted) return
+            const { type: _, ...detail } = data
+            this.dispatchEvent(
+                new CustomEvent(data.type === "LOADED" ? "load" : "error", {
+                    detail,
+                }),
+            )
+        } else if (data.type === "FS_RESYNC") {
+            // A restarted SW only has the tree from its database, which user
+            // code may have changed
+            if (trusted) this._sendNetworkRules()
+        } else if (data.type === "INTERCEPT_REQUEST") {
+            // Relayed user-code messages could fake requests
+            if (trusted) this._answerRequest(data.request)
+        } else if (data.type === "RESPONSE") {
+            // Only the outer frame may answer infrastructure requests
+            if (trusted) this._settleRequest(data)
+        } else if (data.type === "PONG") {
+            this._pingSentAt = null
         } else {
-            this.dispatchEvent(new CustomEvent("message", { detail: data }))
+            this.dispatchEvent(
+                new CustomEvent("message", { detail: { ...data, trusted } }),
+            )
+        }
+    }
+
+    private _settleRequest(response: {
+        id: string
+        success: boolean
+        result?: unknown
+        error?: string
+    }): void {
+        const pending = this._pendingRequests.get(response.id)
+        if (!pending) return
+        this._pendingRequests.delete(response.id)
+        clearTimeout(pending.timer)
+
+        if (response.success) {
+            pending.resolve(response.result)
+        } else {
+            pending.reject(new Error(response.error))
+        }
+    }
+
+    private _settleExecution(result: ExecutionResult): void {
+        const pending = this._pendingExecutions.get(result.id)
+        if (!pending) return
+        this._pendingExecutions.delete(result.id)
+        clearTimeout(pending.timer)
+
+        if (result.success) {
+            pending.resolve(result.result)
+        } else {
+            pending.reject(result.error)
         }
     }
 }
 
 customElements.define("safe-sandbox", SafeSandbox)
 
-export { SafeSandbox, NetworkRules, LogMessage }
+export {
+    SafeSandbox,
+    NetworkRules,
+    LogMessage,
+    ExecutionResult,
+    ExecuteOptions,
+    TimeoutDetail,
+    CacheEntry,
+    VirtualFile,
+    StorageMode,
+    StorageUsage,
+    ServiceWorkerHealth,
+    TamperDetail,
+    InterceptedRequest,
+    RequestDecision,
+    RequestHandler,
+    RequestHookOptions,
+    Har,
+    NetworkFixture,
+    NetworkFixtureBundle,
+    NetworkFixturePolicy,
+    SandboxFS,
+    FileContent,
+    FSChange,
+    FSEntry,
+}
@@ -0,0 +1,161 @@
+/**
+ * Allow Rules
+ * Parses and matches `allow` / `deny` entries of NetworkRules:
+ *
+ *   [scheme://]host[:port][/path-prefix]
+ *
+ *   api.example.com              https, default port
+ *   *.example.com                any subdomain (not the apex)
+ *   http://localhost:8080        explicit scheme and port
+ *   https://api.example.com/v1/  path prefix (/v1 and everything below)
+ *
+ * Bare hosts mean https, except localhost and 127.0.0.1 (http and https,
+ * default port or the sandbox server port). CSP carries the origin-level
+ * grant of `allow`; the Service Worker enforces paths and `deny`.
+ */
+
+import { type NetworkRules } from "./types"
+
+export interface AllowRule {
+    schemes: ("http" | "https")[]
+    host: string // Lowercase, may start with "*."
+    port: string | null // null = default port (or the sandbox port for local hosts)
+    path: string // Prefix, "/" for the whole origin
+}
+
+const RULE_PATTERN =
+    /^(?:(https?):\/\/)?((?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}))?(\/[^\s,;'"]*)?$/i
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1"]
+
+function isLocalHost(host: string): boolean {
+    return LOCAL_HOSTS.includes(host)
+}
+
+/**
+ * Parses one entry, or returns null if it is not valid rule syntax.
+ */
+export function parseAllowRule(entry: string): AllowRule | null {
+    const match = RULE_PATTERN.exec(entry.trim())
+    if (!match) return null
+
+    const [, scheme, rawHost, port, path] = match
+    const host = rawHost.toLowerCase()
+    if (port && Number(port) > 65535) return null
+
+    return {
+        schemes: scheme
+            ? [scheme.toLowerCase() as "http" | "https"]
+            : isLocalHost(host)
+              ? ["http", "https"]
+              : ["https"],
+        host,
+        port: port ?? null,
+        path: path || "/",
+    }
+}
+
+/**
+ * Returns the problems of the `allow` and `deny` lists, empty if valid.
+ */
+export function validateAllowRules(rules: NetworkRules): string[] {
+    const problems: string[] = []
+    for (const key of ["allow", "deny"] as const) {
+        const entries = rules[key]
+        if (entries === undefined) continue
+        if (!Array.isArray(entries)) {
+            problems.push(`${key} must be a list`)
+            continue
+        }
+        for (const entry of entries) {
+            if (typeof entry !== "string" || !parseAllowRule(entry)) {
+                problems.push(
+                    `${key}: "${entry}" is not [scheme://]host[:port][/path]`,
+                )
+            }
+        }
+    }
+    return problems
+}
+
+function matchesHost(pattern: string, hostname: string): boolean {
+    return pattern.startsWith("*.")
+        ? hostname.endsWith(pattern.slice(1))
+        : pattern === hostname
+}
+
+// "/v1" and "/v1/" both cover "/v1" itself and everything below it
+function matchesPath(prefix: string, pathname: string): boolean {
+    const base = prefix.endsWith("/") ? prefix.slice(0, -1) : prefix
+    return base === "" || pathname === base || pathname.startsWith(`${base}/`)
+}
+
+function defaultPort(scheme: string): string {
+    return scheme === "http" ? "80" : "443"
+}
+
+/**
+ * True if `url` matches the rule. `sandboxPort` is the port of the sandbox
+ * server, which local hosts without a port also match.
+ */
+export function matchesAllowRule(
+    url: URL,
+    rule: AllowRule,
+    sandboxPort = "",
+): boolean {
+    const scheme = url.protocol.replace(/:$/, "")
+    if (!(rule.schemes as string[]).includes(scheme)) return false
+    if (!matchesHost(rule.host, url.hostname)) return false
+
+    const port = url.port || defaultPort(scheme)
+    if (rule.port !== null) {
+        if (port !== rule.port) return false
+    } else if (
+        port !== defaultPort(scheme) &&
+        !(isLocalHost(rule.host) && port === sandboxPort)
+    ) {
+        return false
+    }
+    return matchesPath(rule.path, url.pathname)
+}
+
+function matchesAny(url: URL, entries: string[], sandboxPort: string) {
+    return entries.some((entry) => {
+        const rule = parseAllowRule(entry)
+        return !!rule && matchesAllowRule(url, rule, sandboxPort)
+    })
+}
+
+/**
+ * Checks a cross-origin URL against the rules: it must match an `allow`
+ * entry and no `deny` entry. Returns the violated list (`allow`: no entry
+ * matches, `deny`: a deny entry matches), or null if the URL is allowed.
+ */
+export function checkAllowRules(
+    url: URL,
+    rules: NetworkRules,
+    sandboxPort = "",
+): "allow" | "deny" | null {
+    if (!matchesAny(url, rules.allow ?? [], sandboxPort)) return "allow"
+    if (matchesAny(url, rules.deny ?? [], sandboxPort)) return "deny"
+    return null
+}
+
+/**
+ * CSP source expressions for an `allow` entry: scheme, host and port only.
+ * Paths are left to the Service Worker (CSP ignores them after redirects).
+ */
+export function allowRuleSources(entry: string, sandboxPort = ""): string[] {
+    const rule = parseAllowRule(entry)
+    if (!rule) return []
+
+    const ports =
+        rule.port !== null
+            ? [`:${rule.port}`]
+            : isLocalHost(rule.host) && sandboxPort
+              ? ["", `:${sandboxPort}`]
+              : [""]
+    return ports.flatMap((port) =>
+        rule.schemes.map((scheme) => `${scheme}://${rule.host}${port}`),
+    )
+}
@@ -0,0 +1,166 @@
+/**
+ * Connection Policy
+ * Resolves the websockets / eventSource / webrtc rules into host lists and
+ * carries them in URL params (`ws`, `sse`, `rtc`). The server turns the
+ * lists into connect-src entries, the inner frame guards the constructors.
+ */
+
+import { type NetworkRules } from "./types"
+import { parseAllowRule } from "./allow-rules"
+
+export interface ConnectionPolicy {
+    websockets: string[] | null // Allowed hosts, null = blocked
+    eventSource: string[] | null // Allowed hosts, null = blocked
+    webrtc: boolean
+}
+
+// `allow` rules reduced to host[:port]: schemes and paths do not apply
+// to WebSocket / EventSource hosts
+function allowHosts(allow: string[]): string[] {
+    return allow.flatMap((entry) => {
+        const rule = parseAllowRule(entry)
+        if (!rule) return []
+        return [rule.port ? `${rule.host}:${rule.port}` : rule.host]
+    })
+}
+
+function resolveHosts(
+    rule: boolean | string[] | undefined,
+    fallback: boolean,
+    allow: string[],
+): string[] | null {
+    const value = rule ?? fallback
+    if (value === false) return null
+    return value === true ? allowHosts(allow) : [...value]
+}
+
+/**
+ * Applies the defaults: WebSockets and WebRTC blocked, EventSource allowed
+ * for the `allow` domains (its requests pass the Service Worker).
+ */
+export function resolveConnectionPolicy(
+    rules: NetworkRules = {},
+): ConnectionPolicy {
+    const allow = rules.allow ?? []
+    return {
+        websockets: resolveHosts(rules.websockets, false, allow),
+        eventSource: resolveHosts(rules.eventSource, true, allow),
+        webrtc: rules.webrtc ?? false,
+    }
+}
+
+/**
+ * Writes the policy to URL params. An absent `ws`/`sse` param means blocked,
+ * an empty one means same-origin only.
+ */
+export function encodeConnectionPolicy(
+    policy: ConnectionPolicy,
+    params: URLSearchParams,
+): void {
+    if (policy.websockets) params.set("ws", policy.websockets.join(","))
+    if (policy.eventSource) params.set("sse", policy.eventSource.join(","))
+    if (policy.webrtc) params.set("rtc", "true")
+}
+
+// host, *.host or host:port, after an optional scheme
+const CONNECTION_HOST = /^(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*(?::(\d{1,5}))?$/i
+
+/**
+ * True for `host`, `*.host`, `host:port` or a URL of the scheme family
+ * without a path (`wss://host` for WebSockets, `https://host` for
+ * EventSource). The lists end up in the CSP header, so nothing else passes.
+ */
+export function isConnectionEntry(
+    entry: string,
+    scheme: "ws" | "http",
+): boolean {
+    if (typeof entry !== "string") return false
+    const url = /^([a-z]+):\/\/(.*)$/i.exec(entry)
+    if (url && ![scheme, `${scheme}s`].includes(url[1].toLowerCase())) {
+        return false
+    }
+    const match = CONNECTION_HOST.exec(url ? url[2] : entry)
+    return !!match && !(match[1] && Number(match[1]) > 65535)
+}
+
+/**
+ * Returns the problems of the resolved host lists, empty if valid. The
+ * server checks the `ws` / `sse` params the same way.
+ */
+export function validateConnectionPolicy(policy: ConnectionPolicy): string[] {
+    const lists = [
+        ["websockets", "ws"],
+        ["eventSource", "http"],
+    ] as const
+    return lists.flatMap(([key, scheme]) =>
+        (policy[key] ?? [])
+            .filter((entry) => !isConnectionEntry(entry, scheme))
+            .map(
+                (entry) =>
+                    `${key}: "${entry}" is not host[:port] or ${scheme}[s]://host[:port]`,
+            ),
+    )
+}
+
+/**
+ * Checks `websockets` / `eventSource` of NetworkRules: a boolean or a list
+ * of valid host entries.
+ */
+export function validateConnectionRules(rules: NetworkRules): string[] {
+    const problems: string[] = []
+    for (const key of ["websockets", "eventSource"] as const) {
+        const value = rules[key]
+        if (
+            value !== undefined &&
+            typeof value !== "boolean" &&
+            !Array.isArray(value)
+        ) {
+            problems.push(`${key} must be a boolean or a list`)
+        }
+    }
+    if (problems.length > 0) return problems
+    return validateConnectionPolicy(resolveConnectionPolicy(rules))
+}
+
+function decodeHosts(param: string | null): string[] | null {
+    if (param === null) return null
+    return param
+        .split(",")
+        .map((host) => host.trim())
+        .filter(Boolean)
+}
+
+export function decodeConnectionPolicy(
+    params: URLSearchParams,
+): ConnectionPolicy {
+    return {
+        websockets: decodeHosts(params.get("ws")),
+        eventSource: decodeHosts(params.get("sse")),
+        webrtc: params.has("rtc"),
+    }
+}
+
+/**
+ * True if `url` is on the sandbox host (any scheme) or matches a host entry.
+ * Entries are `host`, `*.host`, `host:port` or a URL (`wss://host`).
+ */
+export function isConnectionAllowed(
+    url: URL,
+    hosts: string[],
+    sandboxHost: string,
+): boolean {
+    if (url.host === sandboxHost) return true
+    return hosts.some((entry) => {
+        if (entry.includes("://")) {
+            try {
+                return new URL(entry).host === url.host
+            } catch {
+                return false
+            }
+        }
+        if (entry.startsWith("*.")) {
+            return url.hostname.endsWith(entry.slice(1))
+        }
+        return entry.includes(":") ? entry === url.host : entry === url.hostname
+    })
+}
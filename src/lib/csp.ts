@@ -0,0 +1,190 @@
+/**
+ * CSP Rules
+ * Validates NetworkRules.csp and carries it in the `csp` URL param.
+ * SafeSandbox validates when the rules are set, the server validates the
+ * param again before building the header (the URL is untrusted input).
+ */
+
+import { type CSPDirective, type CSPRules } from "./types"
+
+export const CSP_DIRECTIVES: CSPDirective[] = [
+    "img-src",
+    "style-src",
+    "font-src",
+    "media-src",
+    "frame-src",
+    "worker-src",
+    "manifest-src",
+    "form-action",
+    "base-uri",
+]
+
+// Scheme sources that never reach the network, per directive
+const LOCAL_SCHEMES: Partial<Record<CSPDirective, string[]>> = {
+    "img-src": ["data:", "blob:"],
+    "font-src": ["data:"],
+    "media-src": ["data:", "blob:"],
+    "worker-src": ["blob:"],
+}
+
+// Host sources: [https://][*.]host[:port][/path]. No bare schemes, no `*`.
+const HOST_SOURCE =
+    /^(https:\/\/)?(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?(\/[\w\-.~%/]*)?$/i
+// At least 16 base64 characters (~96 bits)
+const NONCE = /^[A-Za-z0-9+/_-]{16,}={0,2}$/
+const HASH = /^sha(256|384|512)-[A-Za-z0-9+/_-]+={0,2}$/
+
+const RULE_KEYS = [
+    "directives",
+    "scriptNonces",
+    "scriptHashes",
+    "wasmUnsafeEval",
+    "requireTrustedTypes",
+]
+
+function isStringList(value: unknown): value is string[] {
+    return (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+    )
+}
+
+function sourceProblem(
+    directive: CSPDirective,
+    source: string,
+    sources: string[],
+): string | null {
+    if (source === "'none'") {
+        return sources.length === 1
+            ? null
+            : `${directive}: 'none' cannot be combined with other sources`
+    }
+    if (source === "'self'") return null
+    // The default style-src already has it
+    if (source === "'unsafe-inline'" && directive === "style-src") return null
+    if (LOCAL_SCHEMES[directive]?.includes(source)) return null
+    if (HOST_SOURCE.test(source)) return null
+    return `${directive}: "${source}" would loosen the sandbox CSP`
+}
+
+/**
+ * Returns the problems of a `csp` section, empty if it is valid.
+ * Sources may only name specific hosts (no `*`, no bare schemes, no unsafe
+ * keywords). script-src and connect-src follow `allow` and cannot be set.
+ */
+export function validateCSPRules(csp: unknown): string[] {
+    if (!csp || typeof csp !== "object" || Array.isArray(csp)) {
+        return ["csp must be an object"]
+    }
+    const rules = csp as Record<string, unknown>
+    const problems: string[] = []
+
+    for (const key of Object.keys(rules)) {
+        if (!RULE_KEYS.includes(key)) problems.push(`unknown key "${key}"`)
+    }
+
+    const directives = rules.directives ?? {}
+    if (typeof directives !== "object" || Array.isArray(directives)) {
+        problems.push("directives must be an object")
+    } else {
+        for (const [name, sources] of Object.entries(directives)) {
+            if (!CSP_DIRECTIVES.includes(name as CSPDirective)) {
+                problems.push(
+                    `${name} cannot be set (script-src and connect-src follow allow)`,
+                )
+            } else if (!isStringList(sources) || sources.length === 0) {
+                problems.push(`${name} must be a non-empty list of sources`)
+            } else {
+                for (const source of sources) {
+                    const problem = sourceProblem(
+                        name as CSPDirective,
+                        source,
+                        sources,
+                    )
+                    if (problem) problems.push(problem)
+                }
+            }
+        }
+    }
+
+    const nonces = rules.scriptNonces ?? []
+    if (!isStringList(nonces)) {
+        problems.push("scriptNonces must be a list of strings")
+    } else {
+        for (const nonce of nonces) {
+            if (!NONCE.test(nonce)) {
+                problems.push(
+                    `scriptNonces: "${nonce}" is not a base64 value of at least 16 characters`,
+                )
+            }
+        }
+    }
+
+    const hashes = rules.scriptHashes ?? []
+    if (!isStringList(hashes)) {
+        problems.push("scriptHashes must be a list of strings")
+    } else {
+        for (const hash of hashes) {
+            if (!HASH.test(hash)) {
+                problems.push(
+                    `scriptHashes: "${hash}" is not a sha256/384/512-<base64> hash`,
+                )
+            }
+        }
+    }
+
+    for (const key of ["wasmUnsafeEval", "requireTrustedTypes"]) {
+        if (rules[key] !== undefined && typeof rules[key] !== "boolean") {
+            problems.push(`${key} must be a boolean`)
+        }
+    }
+
+    return problems
+}
+
+// The directive that governs each request destination
+const DESTINATION_DIRECTIVES: Partial<Record<string, CSPDirective>> = {
+    image: "img-src",
+    style: "style-src",
+    font: "font-src",
+    audio: "media-src",
+    video: "media-src",
+    track: "media-src",
+    iframe: "frame-src",
+    frame: "frame-src",
+    worker: "worker-src",
+    sharedworker: "worker-src",
+    manifest: "manifest-src",
+}
+
+/**
+ * Sources `csp.directives` grants to a request destination (Fetch API
+ * `Request.destination`), empty if none. The Service Worker lets their
+ * hosts pass without an `allow` entry, since CSP already admits them.
+ */
+export function directiveSources(
+    csp: CSPRules | undefined,
+    destination: string,
+): string[] {
+    const directive = DESTINATION_DIRECTIVES[destination]
+    return (directive && csp?.directives?.[directive]) || []
+}
+
+/**
+ * Encodes the rules as the `csp` URL param (JSON).
+ */
+export function encodeCSPRules(csp: CSPRules): string {
+    return JSON.stringify(csp)
+}
+
+/**
+ * Decodes the `csp` URL param (undefined if absent). The result is
+ * unchecked: run it through validateCSPRules before use.
+ */
+export function decodeCSPRules(param: string | null): unknown {
+    if (param === null) return undefined
+    try {
+        return JSON.parse(param)
+    } catch {
+        return param // Not an object, fails validation
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Execution Policy
+ * Maps ExecutionPolicy flags to iframe sandbox tokens and URL params.
+ */
+
+import { type ExecutionPolicy } from "./types"
+
+export const DEFAULT_EXECUTION_POLICY: Required<ExecutionPolicy> = {
+    scripts: true,
+    formSending: true,
+    popups: false,
+    modals: true,
+    downloads: false,
+}
+
+const SANDBOX_TOKENS: Record<keyof ExecutionPolicy, string> = {
+    scripts: "allow-scripts",
+    formSending: "allow-forms",
+    popups: "allow-popups",
+    modals: "allow-modals",
+    downloads: "allow-downloads",
+}
+
+const POLICY_KEYS = Object.keys(SANDBOX_TOKENS) as (keyof ExecutionPolicy)[]
+
+/**
+ * Fills in the documented defaults for every flag that is not set.
+ */
+export function resolveExecutionPolicy(
+    policy: ExecutionPolicy = {},
+): Required<ExecutionPolicy> {
+    return { ...DEFAULT_EXECUTION_POLICY, ...policy }
+}
+
+/**
+ * Returns the iframe sandbox attribute value for a policy.
+ * allow-same-origin is present unless `sameOrigin` is false: the Service
+ * Worker only intercepts requests from its own origin, so an opaque-origin
+ * frame needs the fetch proxy (opaqueOrigin).
+ */
+export function getSandboxTokens(
+    policy: ExecutionPolicy = {},
+    sameOrigin = true,
+): string {
+    const resolved = resolveExecutionPolicy(policy)
+    const tokens = POLICY_KEYS.filter((key) => resolved[key]).map(
+        (key) => SANDBOX_TOKENS[key],
+    )
+    return [...tokens, ...(sameOrigin ? ["allow-same-origin"] : [])].join(" ")
+}
+
+/**
+ * Encodes a policy as the `exec` URL param (comma-separated enabled flags).
+ */
+export function encodeExecutionPolicy(policy: ExecutionPolicy = {}): string {
+    const resolved = resolveExecutionPolicy(policy)
+    return POLICY_KEYS.filter((key) => resolved[key]).join(",")
+}
+
+/**
+ * Decodes the `exec` URL param. A missing param means the default policy.
+ */
+export function decodeExecutionPolicy(
+    param: string | null,
+): Required<ExecutionPolicy> {
+    if (param === null) return { ...DEFAULT_EXECUTION_POLICY }
+    const enabled = param.split(",")
+    return Object.fromEntries(
+        POLICY_KEYS.map((key) => [key, enabled.includes(key)]),
+    ) as Required<ExecutionPolicy>
+}
@@ -0,0 +1,45 @@
+/**
+ * Network Fixtures
+ * Checks NetworkRules.network and keys fixtures for matching. The SW
+ * records and replays them (outer-sw.ts).
+ */
+
+import { type NetworkFixture } from "./types"
+
+export function fixtureKey(method: string, url: string): string {
+    return `${method.toUpperCase()} ${url}`
+}
+
+function fixtureProblems(fixture: NetworkFixture, index: number): string[] {
+    const problems: string[] = []
+    if (
+        typeof fixture?.method !== "string" ||
+        typeof fixture.url !== "string"
+    ) {
+        problems.push(`fixtures[${index}] needs a method and a url`)
+    }
+    if (!Number.isInteger(fixture?.status)) {
+        problems.push(`fixtures[${index}].status must be an integer`)
+    }
+    if (typeof fixture?.body !== "string") {
+        problems.push(`fixtures[${index}].body must be a string`)
+    }
+    return problems
+}
+
+/**
+ * Returns the problems of a NetworkRules.network value, empty if valid.
+ */
+export function validateFixturePolicy(policy: unknown): string[] {
+    const { mode, fixtures } = (policy ?? {}) as Record<string, any>
+    if (mode !== "record" && mode !== "replay") {
+        return [`mode must be "record" or "replay"`]
+    }
+    if (fixtures === undefined) {
+        return mode === "replay" ? ["replay needs a fixture bundle"] : []
+    }
+    if (fixtures?.version !== 1 || !Array.isArray(fixtures.fixtures)) {
+        return ["fixtures must be a bundle { version: 1, fixtures: [...] }"]
+    }
+    return fixtures.fixtures.flatMap(fixtureProblems)
+}
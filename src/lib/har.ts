@@ -0,0 +1,118 @@
+/**
+ * HAR Export
+ * Turns the SW's network journal into a HAR 1.2 document
+ * (http://www.softwareishard.com/blog/har-12-spec/). Sandbox specifics
+ * are custom fields with a leading underscore.
+ */
+
+import type { JournalEntry, JournalSource } from "./types"
+
+export interface HarHeader {
+    name: string
+    value: string
+}
+
+export interface HarEntry {
+    startedDateTime: string
+    time: number
+    request: {
+        method: string
+        url: string
+        httpVersion: string
+        cookies: []
+        headers: HarHeader[]
+        queryString: HarHeader[]
+        headersSize: -1
+        bodySize: number
+    }
+    response: {
+        status: number
+        statusText: string
+        httpVersion: string
+        cookies: []
+        headers: HarHeader[]
+        content: { size: number; mimeType: string }
+        redirectURL: string
+        headersSize: -1
+        bodySize: number
+    }
+    cache: Record<string, never>
+    timings: { send: number; wait: number; receive: number }
+    _source: JournalSource
+    _blockedBy?: string
+    _error?: string
+}
+
+export interface Har {
+    log: {
+        version: "1.2"
+        creator: { name: string; version: string }
+        pages: []
+        entries: HarEntry[]
+    }
+}
+
+function toHeaders(entries: [string, string][]): HarHeader[] {
+    return entries.map(([name, value]) => ({ name, value }))
+}
+
+function queryString(url: string): HarHeader[] {
+    try {
+        return [...new URL(url).searchParams].map(([name, value]) => ({
+            name,
+            value,
+        }))
+    } catch {
+        return []
+    }
+}
+
+function toHarEntry(entry: JournalEntry): HarEntry {
+    const har: HarEntry = {
+        startedDateTime: new Date(entry.started).toISOString(),
+        time: entry.time,
+        request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: "",
+            cookies: [],
+            headers: toHeaders(entry.requestHeaders),
+            queryString: queryString(entry.url),
+            headersSize: -1,
+            bodySize: entry.requestBodySize,
+        },
+        response: {
+            status: entry.status,
+            statusText: entry.statusText,
+            httpVersion: "",
+            cookies: [],
+            headers: toHeaders(entry.responseHeaders),
+            content: {
+                size: Math.max(entry.responseBodySize, 0),
+                mimeType: entry.mimeType,
+            },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: entry.responseBodySize,
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.wait, receive: entry.receive },
+        _source: entry.source,
+    }
+    if (entry.blockedBy) har._blockedBy = entry.blockedBy
+    if (entry.error) har._error = entry.error
+    return har
+}
+
+export function toHar(entries: JournalEntry[]): Har {
+    return {
+        log: {
+            version: "1.2",
+            creator: { name: "SafeSandbox", version: "1.0" },
+            pages: [],
+            entries: [...entries]
+                .sort((a, b) => a.started - b.started)
+                .map(toHarEntry),
+        },
+    }
+}
@@ -18,19 +18,53 @@ fetch("https://jsonplaceholder.typicode.com/todos/1")
   .then(r => r.json())
   .then(data => console.log("Got:", data));`,
     },
-    //     google: {
-    //         id: "google",
-    //         label: "Google (CORS Proxy)",
-    //         rules: {
-    //             allow: ["www.google.com"],
-    //             proxyUrl: "/_proxy",
-    //             scriptUnsafe: true,
-    //         },
-    //         code: `// Google - Needs CORS proxy
-    // console.log("Fetching Google via proxy...");
-    // fetch("https://www.google.com")
-    //   .then(r => console.log("Status:", r.status));`,
-    //     },
+    replay: {
+        id: "replay",
+        label: "JSONPlaceholder (Replay)",
+        rules: {
+            allow: ["jsonplaceholder.typicode.com"],
+            network: {
+                mode: "replay",
+                fixtures: {
+                    version: 1,
+                    fixtures: [
+                        {
+                            method: "GET",
+                            url: "https://jsonplaceholder.typicode.com/todos/1",
+                            status: 200,
+                            statusText: "OK",
+                            headers: {
+                                "content-type":
+                                    "application/json; charset=utf-8",
+                            },
+                            body: '{"userId":1,"id":1,"title":"delectus aut autem","completed":false}',
+                        },
+                    ],
+                },
+            },
+            scriptUnsafe: true,
+        },
+        code: `// Replayed from a fixture - no network access
+fetch("https://jsonplaceholder.typicode.com/todos/1")
+  .then(r => r.json())
+  .then(data => console.log("Got:", data));
+// Not in the fixtures: fails and logs an error
+fetch("https://jsonplaceholder.typicode.com/todos/2")
+  .catch(e => console.log("Unmatched:", e.name));`,
+    },
+    google: {
+        id: "google",
+        label: "Google (CORS Proxy)",
+        rules: {
+            allow: ["www.google.com"],
+            proxyUrl: "/_proxy",
+            scriptUnsafe: true,
+        },
+        code: `// Google - Needs CORS proxy
+console.log("Fetching Google via proxy...");
+fetch("https://www.google.com")
+  .then(r => console.log("Status:", r.status));`,
+    },
     blocked: {
         id: "blocked",
         label: "Block All",
@@ -72,7 +106,7 @@ setTimeout(() => {
     security: {
         id: "security",
         label: "Security Isolation",
-        rules: { scriptUnsafe: true },
+        rules: { scriptUnsafe: true, execution: { modals: false } },
         code: `// Security isolation tests
 console.log("Testing isolation...");
 
@@ -0,0 +1,117 @@
+/**
+ * Request Policy
+ * The request checks CSP cannot express: allowMethods, allowProtocols,
+ * path prefixes and deny rules, and direct requests to the CORS proxy.
+ * The Service Worker runs them on every request, the outer frame on the
+ * requests it performs for an opaque inner frame (fetch proxy).
+ */
+
+import { checkAllowRules } from "./allow-rules"
+import { directiveSources } from "./csp"
+import { PROXY_PATH } from "./signed-config"
+import { type NetworkRules } from "./types"
+
+export interface PolicyViolation {
+    rule:
+        | "allowMethods"
+        | "allowProtocols"
+        | "maxContentLength"
+        | "allow"
+        | "deny"
+        | "proxyUrl"
+        | "onRequest"
+    message: string
+    data: Record<string, unknown>
+}
+
+/**
+ * The proxy endpoint of `rules.proxyUrl`, or null if none is set. The
+ * proxy relies on the signed config, which stays on the sandbox origin.
+ */
+export function proxyEndpoint(rules: NetworkRules, sandbox: URL): URL | null {
+    if (!rules.proxyUrl) return null
+    const proxy = new URL(rules.proxyUrl, sandbox.href)
+    return proxy.origin === sandbox.origin ? proxy : null
+}
+
+/**
+ * Returns the rule a request violates, or null if it may go out.
+ * `sandbox` is the location of the checking SW or frame.
+ */
+export function checkRequestPolicy(
+    request: Pick<Request, "method" | "destination">,
+    url: URL,
+    rules: NetworkRules,
+    sandbox: URL,
+): PolicyViolation | null {
+    const { allowMethods, allowProtocols } = rules
+
+    // Only the SW talks to the proxy, whether proxyUrl is set or not: a
+    // direct request would skip the limits below and the request hook
+    const proxy = proxyEndpoint(rules, sandbox)
+    if (
+        url.origin === sandbox.origin &&
+        (url.pathname === PROXY_PATH || url.pathname === proxy?.pathname)
+    ) {
+        return {
+            rule: "proxyUrl",
+            message: "direct requests to the CORS proxy are not allowed",
+            data: { proxyUrl: rules.proxyUrl },
+        }
+    }
+
+    if (allowMethods) {
+        const allowed = allowMethods.map((m) => m.toUpperCase())
+        if (!allowed.includes(request.method.toUpperCase())) {
+            return {
+                rule: "allowMethods",
+                message: `method ${request.method} is not allowed`,
+                data: { method: request.method, allowed },
+            }
+        }
+    }
+
+    if (allowProtocols) {
+        const protocol = url.protocol.replace(/:$/, "")
+        if (!(allowProtocols as string[]).includes(protocol)) {
+            return {
+                rule: "allowProtocols",
+                message: `protocol ${protocol} is not allowed`,
+                data: { protocol, allowed: allowProtocols },
+            }
+        }
+    }
+
+    // CSP only carries the origin-level grant of `allow`; path prefixes
+    // and deny rules are enforced here. Hosts that csp.directives grants
+    // to this kind of request (fonts, images, ...) count as allowed, deny
+    // rules still apply. Without allow or deny rules CSP is the only check.
+    if (url.origin !== sandbox.origin && (rules.allow || rules.deny)) {
+        const violated = checkAllowRules(
+            url,
+            {
+                allow: [
+                    ...(rules.allow ?? []),
+                    ...directiveSources(rules.csp, request.destination),
+                ],
+                deny: rules.deny,
+            },
+            sandbox.port,
+        )
+        if (violated) {
+            return {
+                rule: violated,
+                message:
+                    violated === "deny"
+                        ? `${url.href} matches a deny rule`
+                        : `${url.href} matches no allow rule`,
+                data: {
+                    allowed: rules.allow ?? [],
+                    denied: rules.deny ?? [],
+                },
+            }
+        }
+    }
+
+    return null
+}
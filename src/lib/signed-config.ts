@@ -0,0 +1,78 @@
+/**
+ * Signed Config
+ * Sandbox pages are loaded with a single `config` param: a token signed by
+ * the server (server/signed-config.ts) that carries the query params and
+ * the host origin allowed to embed the sandbox.
+ *
+ * Token: base64url(JSON payload) "." base64url(HMAC-SHA256 of the payload)
+ */
+
+export const SIGN_PATH = "/_sandbox/sign"
+export const CONFIG_PARAM = "config"
+// CORS proxy on sandbox origins (server/proxy-handler.ts), for configs
+// signed with the `proxy` param
+export const PROXY_PATH = "/_proxy"
+
+export interface SignedConfig {
+    params: string // Query string without `host`
+    host: string // Embedding origin (frame-ancestors, HOST_ORIGIN)
+    expires: number // Epoch ms
+}
+
+/**
+ * Reads the payload of a token without checking the signature.
+ */
+export function decodeConfigPayload(token: string): SignedConfig | null {
+    try {
+        const payload = token
+            .split(".")[0]
+            .replace(/-/g, "+")
+            .replace(/_/g, "/")
+        const config = JSON.parse(atob(payload))
+        if (
+            typeof config?.params !== "string" ||
+            typeof config.host !== "string" ||
+            typeof config.expires !== "number"
+        ) {
+            return null
+        }
+        return config
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Query params of a sandbox page, taken from its signed config. The server
+ * verified the token before serving the page, and `host` can only come
+ * from the token. Empty for pages without a config.
+ */
+export function readConfigParams(search: string): URLSearchParams {
+    const token = new URLSearchParams(search).get(CONFIG_PARAM)
+    const config = token ? decodeConfigPayload(token) : null
+    if (!config) return new URLSearchParams()
+
+    const params = new URLSearchParams(config.params)
+    params.set("host", config.host)
+    return params
+}
+
+/**
+ * Exchanges the params of a sandbox page URL for a signed config and
+ * returns the URL to load. The sign endpoint lives on the sandbox origin
+ * and signs for the Origin of this request (the host page).
+ */
+export async function signSandboxUrl(src: string): Promise<string> {
+    const url = new URL(src)
+    const response = await fetch(`${url.origin}${SIGN_PATH}`, {
+        method: "POST",
+        body: url.searchParams,
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok || typeof body.token !== "string") {
+        throw new Error(
+            `Sandbox config signing failed: ${body.error ?? response.status}`,
+        )
+    }
+    return `${url.origin}${url.pathname}?${CONFIG_PARAM}=${encodeURIComponent(body.token)}`
+}
@@ -4,19 +4,99 @@
 
 export interface NetworkRules {
     // Network Firewall (Service Worker)
-    allow?: string[]
-    allowProtocols?: ("http" | "https")[]
-    allowMethods?: string[]
-    maxContentLength?: number
+    allow?: string[] // [scheme://]host[:port][/path], e.g. "*.example.com", "https://api.example.com/v1/"
+    deny?: string[] // Same syntax, overrides `allow` (enforced by SW)
+    allowProtocols?: ("http" | "https")[] // Enforced by SW
+    allowMethods?: string[] // Enforced by SW
+    maxContentLength?: number // Bytes, enforced by SW (also for streamed bodies)
     proxyUrl?: string
-    files?: Record<string, string>
+    files?: Record<string, string | VirtualFile>
     cacheStrategy?: "network-first" | "cache-first" | "network-only"
     scriptUnsafe?: boolean // Allow 'unsafe-inline' and 'unsafe-eval'
+    captureContentDebug?: boolean // Inject log/error telemetry into loadSrc() pages
+    storage?: StorageMode // Default: persistent
+    storageQuota?: number // Bytes; a security warning is logged when usage exceeds it
+    tamperResponse?: "heal" | "quarantine" // SW health monitor reaction (default: heal)
+    websockets?: boolean | string[] // Default: false. true = `allow` domains, list = these hosts. Only opaqueOrigin enforces it by CSP (see readme)
+    eventSource?: boolean | string[] // Default: true (`allow` domains)
+    webrtc?: boolean // RTCPeerConnection (default: false)
+    opaqueOrigin?: boolean // Inner frame without allow-same-origin; fetch/XHR/import() proxied by the outer frame
+    csp?: CSPRules // Per-directive CSP sources, validated by SafeSandbox and the server
+    network?: NetworkFixturePolicy // Record responses as fixtures, or replay them without network access
 
     // Execution Firewall (iframe sandbox attribute)
     execution?: ExecutionPolicy
 }
 
+/**
+ * Directives NetworkRules.csp can set. default-src stays 'self',
+ * script-src and connect-src follow `allow`.
+ */
+export type CSPDirective =
+    | "img-src"
+    | "style-src"
+    | "font-src"
+    | "media-src"
+    | "frame-src"
+    | "worker-src"
+    | "manifest-src"
+    | "form-action"
+    | "base-uri"
+
+export interface CSPRules {
+    directives?: Partial<Record<CSPDirective, string[]>> // Replaces the directive's default sources
+    scriptNonces?: string[] // Added to script-src as 'nonce-<value>'
+    scriptHashes?: string[] // "sha256-<base64>", added to script-src
+    wasmUnsafeEval?: boolean // 'wasm-unsafe-eval' in script-src
+    requireTrustedTypes?: boolean // require-trusted-types-for 'script'
+}
+
+/**
+ * record: the SW keeps the responses of passing requests as fixtures
+ * (SafeSandbox.exportFixtures). replay: requests are only answered from
+ * `fixtures`; unmatched requests fail and log an error.
+ */
+export interface NetworkFixturePolicy {
+    mode: "record" | "replay"
+    fixtures?: NetworkFixtureBundle // Required for replay
+}
+
+export interface NetworkFixtureBundle {
+    version: 1
+    fixtures: NetworkFixture[]
+}
+
+// Matched by method and full URL
+export interface NetworkFixture {
+    method: string
+    url: string
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    body: string
+    encoding?: "base64" // Binary bodies; text bodies are stored as is
+}
+
+/**
+ * persistent: storage survives reloads (default)
+ * ephemeral: wiped before every inner frame load
+ * blocked: storage APIs throw in the inner frame
+ */
+export type StorageMode = "persistent" | "ephemeral" | "blocked"
+
+export interface StorageUsage {
+    usage: number // Bytes used by the sandbox origin
+    quota: number // Bytes the browser grants the origin
+    limit: number | null // storageQuota from the rules
+}
+
+export interface VirtualFile {
+    body: string | ArrayBuffer | Blob
+    contentType?: string // Inferred from the path extension when omitted
+    status?: number // Default: 200
+    headers?: Record<string, string>
+}
+
 export interface ExecutionPolicy {
     scripts?: boolean // allow-scripts (default: true)
     formSending?: boolean // allow-forms (default: true)
@@ -33,4 +113,158 @@ export interface LogMessage {
     area?: "network" | "security" | "user-code"
     message: string
     data?: Record<string, unknown>
+    trusted?: boolean // Set by SafeSandbox: true only for authenticated infrastructure messages
+}
+
+export interface ExecutionResult {
+    type: "EXECUTION_RESULT"
+    id: string
+    success: boolean
+    result?: unknown
+    error?: unknown
 }
+
+export interface ExecuteOptions {
+    timeoutMs?: number // Kill the sandbox if the run has not settled in time
+}
+
+export interface TimeoutDetail {
+    reason: "execution" | "heartbeat"
+    executionId?: string
+    timeoutMs: number
+}
+
+export interface ServiceWorkerHealth {
+    supported: boolean
+    registered?: boolean
+    active?: boolean
+    controlled?: boolean // The outer frame is controlled by the SW
+    status?: {
+        rulesVersion: number | null
+        signature: ArrayBuffer | null // HMAC of "<challenge>:<rulesVersion>"
+    } | null
+}
+
+export interface TamperDetail {
+    area: "security"
+    reason: "missing" | "uncontrolled" | "stale-rules" | "invalid-signature"
+    action: "resync" | "reregister" | "quarantine"
+    health: ServiceWorkerHealth
+}
+
+export interface CacheEntry {
+    url: string
+    method: string
+    status: number
+    contentType: string | null
+    size: number // Body size in bytes
+}
+
+/**
+ * A request of the sandbox page, offered to SafeSandbox.onRequest after it
+ * passed the static rules. Navigations, virtual files and sandbox
+ * infrastructure are not offered.
+ */
+export interface InterceptedRequest {
+    id: string
+    url: string
+    method: string
+    headers: Record<string, string>
+    body: ArrayBuffer | null // null for GET/HEAD
+    destination: string // "" for fetch/XHR, otherwise "image", "script", ...
+}
+
+export type InterceptedBody = string | ArrayBuffer | Blob | null
+
+export type RequestDecision =
+    | { action: "allow" }
+    | { action: "block"; reason?: string }
+    | {
+          action: "rewrite"
+          url?: string // Must still pass the allow rules
+          method?: string
+          headers?: Record<string, string> // Replaces the request headers
+          body?: InterceptedBody
+      }
+    | {
+          action: "respond"
+          status?: number // Default: 200
+          statusText?: string
+          headers?: Record<string, string>
+          body?: InterceptedBody
+      }
+
+// Returning nothing allows the request
+export type RequestHandler = (
+    request: InterceptedRequest,
+) => RequestDecision | void | Promise<RequestDecision | void>
+
+export interface RequestHookOptions {
+    timeoutMs?: number // Default: 5000, then the static rules decide alone
+}
+
+/**
+ * One request in the SW's network journal (SafeSandbox.exportHar).
+ * Sizes are -1 when unknown.
+ */
+export interface JournalEntry {
+    started: number // Epoch ms
+    time: number // Total ms, until the body was read
+    method: string
+    url: string
+    requestHeaders: [string, string][]
+    requestBodySize: number
+    status: number // 0 when blocked or failed
+    statusText: string
+    responseHeaders: [string, string][]
+    responseBodySize: number
+    mimeType: string
+    wait: number // Ms until the response headers
+    receive: number // Ms reading the body
+    source: JournalSource
+    blockedBy?: string // Violated rule or CSP directive
+    error?: string
+}
+
+/**
+ * network/cache: fetched or served from the SW cache
+ * virtual: virtual file; onRequest: synthetic response of the host
+ * blocked: SW firewall, host hook or missing fixture; csp: blocked by the
+ * browser (reported by the inner frame, so user code can forge these);
+ * error: failed fetch; replay: served from NetworkRules.network fixtures
+ */
+export type JournalSource =
+    | "network"
+    | "cache"
+    | "virtual"
+    | "onRequest"
+    | "blocked"
+    | "csp"
+    | "error"
+    | "replay"
+
+// Virtual filesystem (SafeSandbox.fs)
+
+export type FileContent = string | ArrayBuffer | Blob | VirtualFile
+
+export interface FSEntry {
+    name: string
+    path: string // Absolute; directories end with "/"
+    type: "file" | "directory"
+    size?: number // Files: body size in bytes
+}
+
+/**
+ * A change, reported to `fs.watch()` callbacks and to user code as an
+ * `fschange` event on the inner frame's window.
+ */
+export interface FSChange {
+    type: "write" | "rm" | "rename" | "mkdir"
+    path: string
+    oldPath?: string // rename
+}
+
+// Incremental update of the SW's virtual files
+export type FSOperation =
+    | { op: "write"; path: string; file: string | VirtualFile }
+    | { op: "rm"; path: string }
@@ -0,0 +1,322 @@
+/**
+ * Virtual Filesystem
+ * The host's copy of the sandbox's virtual files, exposed as
+ * SafeSandbox.fs. Changes made in the same task are sent to the SW as one
+ * incremental patch (FS_PATCH) instead of resending the whole tree. Full
+ * rule syncs (setNetworkRules, resyncs) send this tree as `files`.
+ * Every patch and reset bumps `version`; the SW applies a patch only on top
+ * of the version before it and persists the tree under it.
+ *
+ * Directories are implied by file paths; mkdir() keeps empty ones.
+ */
+
+import type {
+    FileContent,
+    FSChange,
+    FSEntry,
+    FSOperation,
+    VirtualFile,
+} from "./types"
+
+type Files = Record<string, string | VirtualFile>
+
+type FSErrorCode = "ENOENT" | "EEXIST" | "ENOTEMPTY" | "EISDIR" | "ENOTDIR"
+
+const FS_ERRORS: Record<FSErrorCode, string> = {
+    ENOENT: "no such file or directory",
+    EEXIST: "file already exists",
+    ENOTEMPTY: "directory not empty",
+    EISDIR: "illegal operation on a directory",
+    ENOTDIR: "not a directory",
+}
+
+function fsError(code: FSErrorCode, path: string): Error {
+    return new Error(`${code}: ${FS_ERRORS[code]}, '${path}'`)
+}
+
+/**
+ * "/a//b/./c/" -> "/a/b/c". Throws on relative paths and "..".
+ */
+export function normalizePath(path: string): string {
+    if (typeof path !== "string" || !path.startsWith("/")) {
+        throw new Error(`Invalid path '${path}': must be absolute`)
+    }
+    const segments = path.split("/").filter((s) => s && s !== ".")
+    if (segments.includes("..")) {
+        throw new Error(`Invalid path '${path}': '..' is not allowed`)
+    }
+    return "/" + segments.join("/")
+}
+
+/**
+ * Problems with the paths of NetworkRules.files, empty if all are valid.
+ */
+export function validateFiles(files: Files): string[] {
+    const problems: string[] = []
+    for (const path of Object.keys(files)) {
+        try {
+            normalizePath(path)
+        } catch (err: any) {
+            problems.push(err.message)
+        }
+    }
+    return problems
+}
+
+function parentOf(path: string): string {
+    return path.slice(0, path.lastIndexOf("/")) || "/"
+}
+
+function isInside(path: string, dir: string): boolean {
+    return dir === "/" ? path !== "/" : path.startsWith(dir + "/")
+}
+
+function toVirtualFile(content: FileContent): string | VirtualFile {
+    if (content instanceof ArrayBuffer || content instanceof Blob) {
+        return { body: content }
+    }
+    return content
+}
+
+function bodySize(file: string | VirtualFile): number {
+    const body = typeof file === "string" ? file : file.body
+    if (typeof body === "string") return new TextEncoder().encode(body).length
+    return body instanceof Blob ? body.size : body.byteLength
+}
+
+export class SandboxFS {
+    private _files = new Map<string, string | VirtualFile>()
+    private _dirs = new Set<string>()
+    private _ops: FSOperation[] = []
+    private _changes: FSChange[] = []
+    private _flush: Promise<void> | null = null
+    private _watchers = new Set<(changes: FSChange[]) => void>()
+    private _version = 0
+
+    /**
+     * `send` delivers a patch (the tree at `version`) to the SW and resolves
+     * once it is applied.
+     */
+    constructor(
+        private readonly _send: (
+            ops: FSOperation[],
+            changes: FSChange[],
+            version: number,
+        ) => Promise<void>,
+    ) {}
+
+    get version(): number {
+        return this._version
+    }
+
+    /**
+     * Replaces the tree (NetworkRules.files). No patch is sent: the full
+     * rule sync that follows carries the tree.
+     */
+    reset(files: Files): void {
+        this._files = new Map(
+            Object.entries(files).map(([path, file]) => [
+                normalizePath(path),
+                file,
+            ]),
+        )
+        this._dirs.clear()
+        this._version++
+    }
+
+    snapshot(): Files {
+        return Object.fromEntries(this._files)
+    }
+
+    async writeFile(path: string, content: FileContent): Promise<void> {
+        const target = normalizePath(path)
+        if (this._isDirectory(target)) throw fsError("EISDIR", target)
+        for (let dir = parentOf(target); dir !== "/"; dir = parentOf(dir)) {
+            if (this._files.has(dir)) throw fsError("ENOTDIR", dir)
+        }
+
+        const file = toVirtualFile(content)
+        this._files.set(target, file)
+        return this._commit([{ op: "write", path: target, file }], {
+            type: "write",
+            path: target,
+        })
+    }
+
+    /**
+     * Resolves with the content as written (a string or a VirtualFile).
+     */
+    async readFile(path: string): Promise<string | VirtualFile> {
+        const target = normalizePath(path)
+        const file = this._files.get(target)
+        if (file !== undefined) return file
+        throw fsError(this._isDirectory(target) ? "EISDIR" : "ENOENT", target)
+    }
+
+    /**
+     * Creates a directory and its parents. Existing directories are fine.
+     */
+    async mkdir(path: string): Promise<void> {
+        const target = normalizePath(path)
+        if (this._files.has(target)) throw fsError("EEXIST", target)
+        for (let dir = target; dir !== "/"; dir = parentOf(dir)) {
+            if (this._files.has(dir)) throw fsError("ENOTDIR", dir)
+            this._dirs.add(dir)
+        }
+        return this._commit([], { type: "mkdir", path: target })
+    }
+
+    /**
+     * Removes a file, or a directory with `recursive` when it is not empty.
+     */
+    async rm(
+        path: string,
+        options: { recursive?: boolean } = {},
+    ): Promise<void> {
+        const target = normalizePath(path)
+        if (this._files.delete(target)) {
+            return this._commit([{ op: "rm", path: target }], {
+                type: "rm",
+                path: target,
+            })
+        }
+        if (!this._isDirectory(target)) throw fsError("ENOENT", target)
+
+        const files = [...this._files.keys()].filter((p) => isInside(p, target))
+        const hasChildren =
+            files.length > 0 || [...this._dirs].some((d) => isInside(d, target))
+        if (hasChildren && !options.recursive) {
+            throw fsError("ENOTEMPTY", target)
+        }
+        for (const file of files) this._files.delete(file)
+        for (const dir of this._dirs) {
+            if (dir === target || isInside(dir, target)) this._dirs.delete(dir)
+        }
+        return this._commit(
+            files.map((file) => ({ op: "rm" as const, path: file })),
+            { type: "rm", path: target },
+        )
+    }
+
+    /**
+     * Moves a file or a directory with everything in it.
+     */
+    async rename(from: string, to: string): Promise<void> {
+        const source = normalizePath(from)
+        const target = normalizePath(to)
+        if (this._files.has(target) || this._isDirectory(target)) {
+            throw fsError("EEXIST", target)
+        }
+
+        const moves: [string, string][] = this._files.has(source)
+            ? [[source, target]]
+            : [...this._files.keys()]
+                  .filter((p) => isInside(p, source))
+                  .map((p) => [p, target + p.slice(source.length)])
+        if (moves.length === 0 && !this._dirs.has(source)) {
+            throw fsError("ENOENT", source)
+        }
+        if (isInside(target, source)) throw fsError("EISDIR", target)
+
+        const ops: FSOperation[] = []
+        for (const [oldPath, newPath] of moves) {
+            const file = this._files.get(oldPath)!
+            this._files.delete(oldPath)
+            this._files.set(newPath, file)
+            ops.push({ op: "rm", path: oldPath })
+            ops.push({ op: "write", path: newPath, file })
+        }
+        for (const dir of [...this._dirs]) {
+            if (dir === source || isInside(dir, source)) {
+                this._dirs.delete(dir)
+                this._dirs.add(target + dir.slice(source.length))
+            }
+        }
+        return this._commit(ops, {
+            type: "rename",
+            path: target,
+            oldPath: source,
+        })
+    }
+
+    /**
+     * Lists the direct children of a directory, directories first.
+     */
+    async ls(path = "/"): Promise<FSEntry[]> {
+        const target = normalizePath(path)
+        if (this._files.has(target)) throw fsError("ENOTDIR", target)
+        if (!this._isDirectory(target)) throw fsError("ENOENT", target)
+
+        const prefix = target === "/" ? "/" : target + "/"
+        const entries = new Map<string, FSEntry>()
+        const add = (childPath: string, isFile: boolean) => {
+            const name = childPath.slice(prefix.length).split("/")[0]
+            const path = prefix + name
+            if (isFile && childPath === path) {
+                entries.set(name, {
+                    name,
+                    path,
+                    type: "file",
+                    size: bodySize(this._files.get(path)!),
+                })
+            } else if (!entries.has(name)) {
+                entries.set(name, { name, path: path + "/", type: "directory" })
+            }
+        }
+        for (const file of this._files.keys()) {
+            if (isInside(file, target)) add(file, true)
+        }
+        for (const dir of this._dirs) {
+            if (isInside(dir, target)) add(dir, false)
+        }
+
+        return [...entries.values()].sort(
+            (a, b) =>
+                (a.type === b.type ? 0 : a.type === "directory" ? -1 : 1) ||
+                a.name.localeCompare(b.name),
+        )
+    }
+
+    /**
+     * Calls `callback` with the changes of every patch. Returns a function
+     * that stops watching.
+     */
+    watch(callback: (changes: FSChange[]) => void): () => void {
+        this._watchers.add(callback)
+        return () => this._watchers.delete(callback)
+    }
+
+    private _isDirectory(path: string): boolean {
+        if (path === "/" || this._dirs.has(path)) return true
+        for (const file of this._files.keys()) {
+            if (isInside(file, path)) return true
+        }
+        return false
+    }
+
+    /**
+     * Queues a change; everything queued in the same task goes out as one
+     * patch with the last operation per path.
+     */
+    private _commit(ops: FSOperation[], change: FSChange): Promise<void> {
+        this._ops.push(...ops)
+        this._changes.push(change)
+        this._flush ??= Promise.resolve().then(() => {
+            const latest = new Map(this._ops.map((op) => [op.path, op]))
+            const changes = this._changes
+            this._ops = []
+            this._changes = []
+            this._flush = null
+
+            for (const watcher of this._watchers) {
+                try {
+                    watcher(changes)
+                } catch {
+                    // A failing watcher must not stop the patch
+                }
+            }
+            return this._send([...latest.values()], changes, ++this._version)
+        })
+        return this._flush
+    }
+}
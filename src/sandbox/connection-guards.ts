@@ -0,0 +1,211 @@
+/**
+ * Connection Guards
+ * Wraps WebSocket, EventSource and RTCPeerConnection in the inner frame.
+ * The Service Worker never sees traffic on these connections, so every
+ * connection, message size and close is logged here (`network` area), and
+ * constructors the policy forbids throw a sandbox error.
+ * Visibility, not enforcement: CSP connect-src is what restricts hosts,
+ * and only with opaqueOrigin does it leave out the `allow` domains (which
+ * wss: matches). Frames user code creates get the native constructors.
+ */
+
+import { type ConnectionPolicy, isConnectionAllowed } from "../lib/connections"
+
+type Log = (
+    level: "log" | "warn",
+    area: "network" | "security",
+    message: string,
+    data: Record<string, unknown>,
+) => void
+
+function byteSize(data: unknown): number {
+    if (typeof data === "string") return new TextEncoder().encode(data).length
+    if (data instanceof Blob) return data.size
+    if (data instanceof ArrayBuffer) return data.byteLength
+    if (ArrayBuffer.isView(data)) return data.byteLength
+    return 0
+}
+
+function blockedError(api: string, rule: string, url?: string): DOMException {
+    const target = url ? ` to ${url}` : ""
+    return new DOMException(
+        `${api}${target} is blocked by the sandbox (NetworkRules.${rule})`,
+        "SecurityError",
+    )
+}
+
+export function installConnectionGuards(policy: ConnectionPolicy, log: Log) {
+    // location.origin is "null" in an opaque-origin frame, the URL is not
+    const sandboxHost = window.location.host
+
+    const reportBlocked = (api: string, rule: string, url?: string) => {
+        const error = blockedError(api, rule, url)
+        log("warn", "security", `Blocked ${error.message}`, {
+            capability: api,
+            policy: rule,
+            url,
+        })
+        return error
+    }
+
+    // WebSocket
+    const NativeWebSocket = window.WebSocket
+    if (NativeWebSocket) {
+        const hosts = policy.websockets
+        window.WebSocket = class SandboxWebSocket extends NativeWebSocket {
+            constructor(url: string | URL, protocols?: string | string[]) {
+                const target = new URL(url, window.location.href)
+                if (
+                    !hosts ||
+                    !isConnectionAllowed(target, hosts, sandboxHost)
+                ) {
+                    throw reportBlocked("WebSocket", "websockets", target.href)
+                }
+                super(url, protocols)
+
+                const href = target.href
+                this.addEventListener("open", () =>
+                    log("log", "network", `WebSocket: open ${href}`, {
+                        url: href,
+                    }),
+                )
+                this.addEventListener("message", (event) => {
+                    const size = byteSize(event.data)
+                    log("log", "network", `WebSocket: received ${size} bytes`, {
+                        url: href,
+                        size,
+                    })
+                })
+                this.addEventListener("close", (event) =>
+                    log(
+                        "log",
+                        "network",
+                        `WebSocket: closed ${href} (${event.code})`,
+                        { url: href, code: event.code, reason: event.reason },
+                    ),
+                )
+            }
+
+            send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+                const size = byteSize(data)
+                log("log", "network", `WebSocket: sent ${size} bytes`, {
+                    url: this.url,
+                    size,
+                })
+                super.send(data)
+            }
+        }
+    }
+
+    // EventSource
+    const NativeEventSource = window.EventSource
+    if (NativeEventSource) {
+        const hosts = policy.eventSource
+        window.EventSource = class SandboxEventSource extends (
+            NativeEventSource
+        ) {
+            constructor(url: string | URL, init?: EventSourceInit) {
+                const target = new URL(url, window.location.href)
+                if (
+                    !hosts ||
+                    !isConnectionAllowed(target, hosts, sandboxHost)
+                ) {
+                    throw reportBlocked(
+                        "EventSource",
+                        "eventSource",
+                        target.href,
+                    )
+                }
+                super(url, init)
+
+                const href = target.href
+                this.addEventListener("open", () =>
+                    log("log", "network", `EventSource: open ${href}`, {
+                        url: href,
+                    }),
+                )
+                this.addEventListener("message", (event) => {
+                    const size = byteSize(event.data)
+                    log(
+                        "log",
+                        "network",
+                        `EventSource: received ${size} bytes`,
+                        { url: href, size },
+                    )
+                })
+            }
+
+            close() {
+                log("log", "network", `EventSource: closed ${this.url}`, {
+                    url: this.url,
+                })
+                super.close()
+            }
+        }
+    }
+
+    // WebRTC: CSP cannot restrict peer connections, the guard is all there is
+    const NativePeerConnection = window.RTCPeerConnection
+    if (!NativePeerConnection) return
+
+    if (!policy.webrtc) {
+        const blocked = function RTCPeerConnection() {
+            throw reportBlocked("RTCPeerConnection", "webrtc")
+        }
+        window.RTCPeerConnection = blocked as any
+        ;(window as any).webkitRTCPeerConnection = blocked
+        return
+    }
+
+    const logChannel = (channel: RTCDataChannel) => {
+        const send = channel.send
+        channel.send = function (data: any) {
+            const size = byteSize(data)
+            log("log", "network", `RTCDataChannel: sent ${size} bytes`, {
+                label: channel.label,
+                size,
+            })
+            return send.call(this, data)
+        }
+        channel.addEventListener("message", (event) => {
+            const size = byteSize(event.data)
+            log("log", "network", `RTCDataChannel: received ${size} bytes`, {
+                label: channel.label,
+                size,
+            })
+        })
+        channel.addEventListener("close", () =>
+            log("log", "network", `RTCDataChannel: closed ${channel.label}`, {
+                label: channel.label,
+            }),
+        )
+    }
+
+    window.RTCPeerConnection = class SandboxPeerConnection extends (
+        NativePeerConnection
+    ) {
+        constructor(config?: RTCConfiguration) {
+            super(config)
+            log("log", "network", "RTCPeerConnection: created", {
+                iceServers: config?.iceServers?.map((server) => server.urls),
+            })
+            this.addEventListener("connectionstatechange", () =>
+                log(
+                    "log",
+                    "network",
+                    `RTCPeerConnection: ${this.connectionState}`,
+                    { state: this.connectionState },
+                ),
+            )
+            this.addEventListener("datachannel", (event) =>
+                logChannel(event.channel),
+            )
+        }
+
+        createDataChannel(label: string, init?: RTCDataChannelInit) {
+            const channel = super.createDataChannel(label, init)
+            logChannel(channel)
+            return channel
+        }
+    }
+}
@@ -0,0 +1,385 @@
+/**
+ * Fetch Proxy (opaqueOrigin mode)
+ * Without allow-same-origin the inner frame has an opaque origin and the
+ * Service Worker never sees its requests. fetch, XMLHttpRequest and
+ * import() are replaced by shims that hand each request to the outer frame,
+ * which performs it through the SW and CSP and streams the response back.
+ *
+ * Protocol (inner <-> outer port):
+ *   inner: FETCH { id, url, method, headers, body?, redirect }, FETCH_ABORT { id }
+ *   outer: FETCH_RESPONSE { id, status, statusText, url, headers },
+ *          FETCH_CHUNK { id, chunk }, FETCH_END { id }, FETCH_ERROR { id, error }
+ */
+
+type Post = (message: unknown, transfer?: Transferable[]) => void
+type Fetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>
+
+interface PendingFetch {
+    resolve: (response: Response) => void
+    reject: (reason: unknown) => void
+    stream?: ReadableStreamDefaultController<Uint8Array>
+}
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUS = [101, 204, 205, 304]
+
+// Parameter name the rewritten user code calls instead of import()
+export const IMPORT_SHIM = "__sandboxImport"
+
+/**
+ * Routes `import(...)` calls in user code to the import shim. Member calls
+ * such as `loader.import(...)` are left alone.
+ */
+export function rewriteDynamicImports(code: string): string {
+    return code.replace(/(^|[^.\w$])import\s*\(/g, `$1${IMPORT_SHIM}(`)
+}
+
+/**
+ * Headers as a cloneable list of [name, value] pairs.
+ */
+export function headerEntries(headers: Headers): [string, string][] {
+    const entries: [string, string][] = []
+    headers.forEach((value, name) => entries.push([name, value]))
+    return entries
+}
+
+// Request headers the outer frame never forwards: forbidden header names
+// of the Fetch spec (the browser sets them itself) and credentials, which
+// a fetch from the outer frame would otherwise carry for the sandbox origin
+const DROPPED_HEADERS = [
+    "accept-charset",
+    "accept-encoding",
+    "access-control-request-headers",
+    "access-control-request-method",
+    "authorization",
+    "connection",
+    "content-length",
+    "cookie",
+    "cookie2",
+    "date",
+    "dnt",
+    "expect",
+    "host",
+    "keep-alive",
+    "origin",
+    "referer",
+    "set-cookie",
+    "te",
+    "trailer",
+    "transfer-encoding",
+    "upgrade",
+    "via",
+]
+
+/**
+ * Request headers of the inner frame that the outer frame may forward.
+ */
+export function forwardableHeaders(
+    entries: [string, string][],
+): [string, string][] {
+    return entries.filter(([name]) => {
+        const lower = name.toLowerCase()
+        return (
+            !DROPPED_HEADERS.includes(lower) &&
+            !lower.startsWith("proxy-") &&
+            !lower.startsWith("sec-")
+        )
+    })
+}
+
+function abortError(): DOMException {
+    return new DOMException("The operation was aborted.", "AbortError")
+}
+
+export function createFetchProxy(post: Post) {
+    const pending = new Map<string, PendingFetch>()
+    let nextId = 0
+
+    function settle(id: string, error: unknown) {
+        const entry = pending.get(id)
+        if (!entry) return
+        pending.delete(id)
+        if (entry.stream) {
+            entry.stream.error(error)
+        } else {
+            entry.reject(error)
+        }
+    }
+
+    async function proxiedFetch(
+        input: RequestInfo | URL,
+        init?: RequestInit,
+    ): Promise<Response> {
+        const request = new Request(input, init)
+        const body =
+            request.method === "GET" || request.method === "HEAD"
+                ? undefined
+                : await request.arrayBuffer()
+        if (request.signal.aborted) throw abortError()
+
+        const id = String(++nextId)
+        return new Promise<Response>((resolve, reject) => {
+            pending.set(id, { resolve, reject })
+            request.signal.addEventListener(
+                "abort",
+                () => {
+                    post({ type: "FETCH_ABORT", id })
+                    settle(id, abortError())
+                },
+                { once: true },
+            )
+            post(
+                {
+                    type: "FETCH",
+                    id,
+                    url: request.url,
+                    method: request.method,
+                    headers: headerEntries(request.headers),
+                    body,
+                    redirect: request.redirect,
+                },
+                body ? [body] : [],
+            )
+        })
+    }
+
+    /**
+     * Dynamic import through the proxy: the module source is fetched like
+     * any other request and evaluated from a blob: URL. Relative imports
+     * inside the module do not resolve against its original location.
+     */
+    async function proxiedImport(specifier: string): Promise<unknown> {
+        const url = new URL(specifier, document.baseURI).href
+        const response = await proxiedFetch(url)
+        if (!response.ok) {
+            throw new TypeError(
+                `Failed to fetch dynamically imported module: ${url}`,
+            )
+        }
+        const blob = new Blob([await response.text()], {
+            type: "text/javascript",
+        })
+        const blobUrl = URL.createObjectURL(blob)
+        try {
+            return await import(blobUrl)
+        } finally {
+            URL.revokeObjectURL(blobUrl)
+        }
+    }
+
+    /**
+     * Handles a FETCH_* message from the outer frame.
+     */
+    function handleMessage(data: any) {
+        const entry = pending.get(data?.id)
+        if (!entry) return
+
+        if (data.type === "FETCH_RESPONSE") {
+            const body = NULL_BODY_STATUS.includes(data.status)
+                ? null
+                : new ReadableStream<Uint8Array>({
+                      start(controller) {
+                          entry.stream = controller
+                      },
+                      cancel() {
+                          pending.delete(data.id)
+                          post({ type: "FETCH_ABORT", id: data.id })
+                      },
+                  })
+            const response = new Response(body, {
+                status: data.status,
+                statusText: data.statusText,
+                headers: data.headers,
+            })
+            Object.defineProperty(response, "url", { value: data.url })
+            entry.resolve(response)
+            if (!body) pending.delete(data.id)
+        } else if (data.type === "FETCH_CHUNK") {
+            entry.stream?.enqueue(new Uint8Array(data.chunk))
+        } else if (data.type === "FETCH_END") {
+            pending.delete(data.id)
+            entry.stream?.close()
+        } else if (data.type === "FETCH_ERROR") {
+            // Same error type the native fetch uses for network failures
+            settle(
+                data.id,
+                data.error?.name === "AbortError"
+                    ? abortError()
+                    : new TypeError(data.error?.message ?? "Failed to fetch"),
+            )
+        }
+    }
+
+    return {
+        fetch: proxiedFetch,
+        import: proxiedImport,
+        XMLHttpRequest: createXMLHttpRequest(proxiedFetch),
+        handleMessage,
+    }
+}
+
+/**
+ * Asynchronous XMLHttpRequest on top of the proxied fetch.
+ * Synchronous requests cannot be proxied and throw on open().
+ */
+function createXMLHttpRequest(proxiedFetch: Fetch) {
+    return class ProxiedXMLHttpRequest extends EventTarget {
+        static readonly UNSENT = 0
+        static readonly OPENED = 1
+        static readonly HEADERS_RECEIVED = 2
+        static readonly LOADING = 3
+        static readonly DONE = 4
+
+        readonly UNSENT = 0
+        readonly OPENED = 1
+        readonly HEADERS_RECEIVED = 2
+        readonly LOADING = 3
+        readonly DONE = 4
+
+        readyState = 0
+        status = 0
+        statusText = ""
+        responseURL = ""
+        responseType: XMLHttpRequestResponseType = ""
+        response: any = ""
+        responseText = ""
+        timeout = 0
+        withCredentials = false
+        readonly upload = new EventTarget()
+
+        onreadystatechange: ((event: Event) => void) | null = null
+        onloadstart: ((event: ProgressEvent) => void) | null = null
+        onprogress: ((event: ProgressEvent) => void) | null = null
+        onload: ((event: ProgressEvent) => void) | null = null
+        onerror: ((event: ProgressEvent) => void) | null = null
+        onabort: ((event: ProgressEvent) => void) | null = null
+        ontimeout: ((event: ProgressEvent) => void) | null = null
+        onloadend: ((event: ProgressEvent) => void) | null = null
+
+        private _method = "GET"
+        private _url = ""
+        private _headers = new Headers()
+        private _responseHeaders = new Headers()
+        private _controller: AbortController | null = null
+
+        open(method: string, url: string | URL, async = true) {
+            if (!async) {
+                throw new DOMException(
+                    "Synchronous XMLHttpRequest is not supported in the opaque sandbox",
+                    "InvalidAccessError",
+                )
+            }
+            this._method = method.toUpperCase()
+            this._url = new URL(url, document.baseURI).href
+            this._headers = new Headers()
+            this._setState(this.OPENED)
+        }
+
+        setRequestHeader(name: string, value: string) {
+            this._headers.append(name, value)
+        }
+
+        getResponseHeader(name: string): string | null {
+            return this._responseHeaders.get(name)
+        }
+
+        getAllResponseHeaders(): string {
+            return headerEntries(this._responseHeaders)
+                .map(([name, value]) => `${name}: ${value}\r\n`)
+                .join("")
+        }
+
+        overrideMimeType(_mime: string) {}
+
+        abort() {
+            this._controller?.abort()
+        }
+
+        send(body?: Document | XMLHttpRequestBodyInit | null) {
+            const controller = new AbortController()
+            this._controller = controller
+            let timedOut = false
+            const timer =
+                this.timeout > 0
+                    ? setTimeout(() => {
+                          timedOut = true
+                          controller.abort()
+                      }, this.timeout)
+                    : undefined
+
+            this._emit("loadstart")
+            proxiedFetch(this._url, {
+                method: this._method,
+                headers: this._headers,
+                body: body as BodyInit | null | undefined,
+                credentials: this.withCredentials ? "include" : "same-origin",
+                signal: controller.signal,
+            })
+                .then(async (response) => {
+                    this.status = response.status
+                    this.statusText = response.statusText
+                    this.responseURL = response.url
+                    this._responseHeaders = response.headers
+                    this._setState(this.HEADERS_RECEIVED)
+                    this._setState(this.LOADING)
+                    await this._readBody(response)
+                    this._setState(this.DONE)
+                    this._emit("progress")
+                    this._emit("load")
+                })
+                .catch((err) => {
+                    this.status = 0
+                    this._setState(this.DONE)
+                    this._emit(
+                        timedOut
+                            ? "timeout"
+                            : err?.name === "AbortError"
+                              ? "abort"
+                              : "error",
+                    )
+                })
+                .finally(() => {
+                    clearTimeout(timer)
+                    this._emit("loadend")
+                })
+        }
+
+        private async _readBody(response: Response) {
+            if (this.responseType === "arraybuffer") {
+                this.response = await response.arrayBuffer()
+            } else if (this.responseType === "blob") {
+                this.response = await response.blob()
+            } else {
+                this.responseText = await response.text()
+                if (this.responseType === "json") {
+                    try {
+                        this.response = JSON.parse(this.responseText)
+                    } catch {
+                        this.response = null
+                    }
+                } else if (this.responseType === "document") {
+                    this.response = new DOMParser().parseFromString(
+                        this.responseText,
+                        "text/html",
+                    )
+                } else {
+                    this.response = this.responseText
+                }
+            }
+        }
+
+        private _setState(state: number) {
+            this.readyState = state
+            const event = new Event("readystatechange")
+            this.onreadystatechange?.call(this, event)
+            this.dispatchEvent(event)
+        }
+
+        private _emit(type: string) {
+            const event = new ProgressEvent(type)
+            const handler = (this as any)[`on${type}`]
+            handler?.call(this, event)
+            this.dispatchEvent(event)
+        }
+    }
+}
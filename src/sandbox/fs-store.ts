@@ -0,0 +1,169 @@
+/**
+ * Virtual File Store
+ * Mirrors the Service Worker's virtual files to IndexedDB, so they survive
+ * the browser stopping an idle SW. Trees are stored per sandbox session
+ * (one SafeSandbox instance) with the fs version they are at; only the
+ * most recently updated sessions are kept. User code on the sandbox origin
+ * can read and change the database, so a restarted SW treats the stored
+ * tree as a fallback until the host resends its own.
+ */
+
+import type { FSOperation, VirtualFile } from "../lib/types"
+
+type Files = Record<string, string | VirtualFile>
+
+export interface StoredFS {
+    session: string
+    version: number
+    files: Files
+}
+
+interface SessionRecord {
+    session: string
+    version: number
+    updated: number
+}
+
+interface FileRecord {
+    session: string
+    path: string
+    file: string | VirtualFile
+}
+
+const DB_NAME = "sandbox-vfs"
+const DB_VERSION = 1
+const MAX_SESSIONS = 8
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore("sessions", {
+                keyPath: "session",
+            })
+            request.result.createObjectStore("files", {
+                keyPath: ["session", "path"],
+            })
+        }
+        request.onsuccess = () => {
+            // Let storage wipes (NetworkRules.storage) delete the database
+            request.result.onversionchange = () => {
+                request.result.close()
+                database = null
+            }
+            resolve(request.result)
+        }
+        request.onerror = () => reject(request.error)
+    }).catch((err) => {
+        database = null
+        throw err
+    })
+    return database
+}
+
+async function transaction(
+    mode: IDBTransactionMode,
+    work: (sessions: IDBObjectStore, files: IDBObjectStore) => void,
+): Promise<void> {
+    const tx = (await openDatabase()).transaction(["sessions", "files"], mode)
+    work(tx.objectStore("sessions"), tx.objectStore("files"))
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = tx.onabort = () => reject(tx.error)
+    })
+}
+
+// Arrays sort after strings, so this spans every path of the session
+function sessionFiles(session: string): IDBKeyRange {
+    return IDBKeyRange.bound([session], [session, []])
+}
+
+function touch(sessions: IDBObjectStore, session: string, version: number) {
+    const record: SessionRecord = { session, version, updated: Date.now() }
+    sessions.put(record)
+}
+
+/**
+ * Replaces the stored tree of a session (full rule sync). Trees of other
+ * sessions are kept, except the least recently updated beyond
+ * MAX_SESSIONS.
+ */
+export function saveFS(stored: StoredFS): Promise<void> {
+    return transaction("readwrite", (sessions, files) => {
+        files.delete(sessionFiles(stored.session))
+        for (const [path, file] of Object.entries(stored.files)) {
+            const record: FileRecord = { session: stored.session, path, file }
+            files.put(record)
+        }
+        touch(sessions, stored.session, stored.version)
+
+        const all = sessions.getAll()
+        all.onsuccess = () => {
+            const stale = (all.result as SessionRecord[])
+                .sort((a, b) => b.updated - a.updated)
+                .slice(MAX_SESSIONS)
+            for (const { session } of stale) {
+                sessions.delete(session)
+                files.delete(sessionFiles(session))
+            }
+        }
+    })
+}
+
+/**
+ * Applies an incremental update (FS_PATCH) to the stored tree.
+ */
+export function patchFS(
+    session: string,
+    version: number,
+    ops: FSOperation[],
+): Promise<void> {
+    return transaction("readwrite", (sessions, files) => {
+        for (const op of ops) {
+            if (op.op === "write") {
+                const record: FileRecord = {
+                    session,
+                    path: op.path,
+                    file: op.file,
+                }
+                files.put(record)
+            } else {
+                files.delete([session, op.path])
+            }
+        }
+        touch(sessions, session, version)
+    })
+}
+
+/**
+ * The tree of the most recently updated session, or null if nothing is
+ * stored. Written by user code or not, it has to be confirmed by the host.
+ */
+export async function loadFS(): Promise<StoredFS | null> {
+    let stored: StoredFS | null = null
+    await transaction("readonly", (sessions, files) => {
+        const all = sessions.getAll()
+        all.onsuccess = () => {
+            const latest = (all.result as SessionRecord[]).sort(
+                (a, b) => b.updated - a.updated,
+            )[0]
+            if (!latest) return
+            const records = files.getAll(sessionFiles(latest.session))
+            records.onsuccess = () => {
+                stored = {
+                    session: latest.session,
+                    version: latest.version,
+                    files: Object.fromEntries(
+                        (records.result as FileRecord[]).map((record) => [
+                            record.path,
+                            record.file,
+                        ]),
+                    ),
+                }
+            }
+        }
+    })
+    return stored
+}
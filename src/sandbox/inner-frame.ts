@@ -4,12 +4,45 @@
  */
 
 import { extractMetadata, createLogMessage } from "./utils"
+import { decodeExecutionPolicy } from "../lib/execution"
+import {
+    createFetchProxy,
+    rewriteDynamicImports,
+    IMPORT_SHIM,
+} from "./fetch-proxy"
+import { blockStorage, decodeStorageMode } from "./storage"
+import { installConnectionGuards } from "./connection-guards"
+import { decodeConnectionPolicy } from "../lib/connections"
+import { decodeCSPRules } from "../lib/csp"
+import { readConfigParams } from "../lib/signed-config"
+import type { CSPRules } from "../lib/types"
+
+// Policy from the signed config. Pages opened with loadSrc() have no config
+// in their own URL: the SW injects this runtime as a classic script and
+// passes the config on its URL (captureContentDebug).
+const runtimeScript = document.currentScript as HTMLScriptElement | null
+const params = readConfigParams(
+    runtimeScript ? new URL(runtimeScript.src).search : window.location.search,
+)
+
+// 0. Port to outer frame (transferred in the CONNECT handshake)
+// Messages produced before the handshake are queued.
+let outerPort: MessagePort | null = null
+const outbox: { message: unknown; transfer: Transferable[] }[] = []
+
+function send(message: unknown, transfer: Transferable[] = []) {
+    if (outerPort) {
+        outerPort.postMessage(message, transfer)
+    } else {
+        outbox.push({ message, transfer })
+    }
+}
 
 // 1. CSP Violation Reporting (Restores logging lost from SW)
 document.addEventListener("securitypolicyviolation", (event: any) => {
     const blockedUri = event.blockedURI
     const violatedDirective = event.violatedDirective
-    window.parent.postMessage(
+    send(
         createLogMessage(
             "error",
             `Security Violation: ${violatedDirective} blocked ${blockedUri}`,
@@ -20,8 +53,14 @@ document.addEventListener("securitypolicyviolation", (event: any) => {
                 lineNumber: event.lineNumber,
             },
         ),
-        "*",
     )
+    // Recorded in the SW's network journal (SafeSandbox.exportHar)
+    send({
+        type: "CSP_VIOLATION",
+        blockedUri,
+        violatedDirective,
+        timestamp: Date.now(),
+    })
 })
 
 // 2. Proxy console methods
@@ -37,10 +76,7 @@ consoleMethods.forEach((level) => {
                 )
                 .join(" ")
 
-            window.parent.postMessage(
-                createLogMessage(level, message, { args: safeArgs }),
-                "*",
-            )
+            send(createLogMessage(level, message, { args: safeArgs }))
         } catch (e) {
             original.apply(console, ["[Inner] Relay Error", e])
         }
@@ -51,19 +87,18 @@ consoleMethods.forEach((level) => {
 // 3. Unhandled promise rejections
 window.addEventListener("unhandledrejection", (event) => {
     const error = extractMetadata(event.reason)
-    window.parent.postMessage(
+    send(
         createLogMessage(
             "error",
             `Unhandled Rejection: ${JSON.stringify(error)}`,
             error,
         ),
-        "*",
     )
 })
 
 // 4. Global error handler
 window.addEventListener("error", (event) => {
-    window.parent.postMessage(
+    send(
         createLogMessage(
             "error",
             `${event.message} at ${event.filename}:${event.lineno}`,
@@ -74,26 +109,178 @@ window.addEventListener("error", (event) => {
                 colno: event.colno,
             },
         ),
-        "*",
     )
 })
 
-// 5. Execute code from outer frame
-window.addEventListener("message", (event) => {
-    if (event.data?.type === "EXECUTE") {
-        try {
-            // eslint-disable-next-line no-new-func
-            const func = new Function(event.data.code)
-            func()
-        } catch (e) {
-            console.error("Execution Error:", e)
+// 5. Capability guards
+// The browser silently ignores capabilities missing from the sandbox
+// attribute. Report them so the host can see why nothing happened.
+const policy = decodeExecutionPolicy(params.get("exec"))
+
+function reportBlocked(capability: string, flag: string) {
+    send(
+        createLogMessage(
+            "warn",
+            `Blocked ${capability}: '${flag}' is disabled by the execution policy`,
+            { capability, policy: flag },
+            "security",
+        ),
+    )
+}
+
+if (!policy.modals) {
+    // Same return values the browser gives when modals are blocked
+    const modalFallbacks = {
+        alert: undefined,
+        confirm: false,
+        prompt: null,
+        print: undefined,
+    }
+    Object.entries(modalFallbacks).forEach(([method, fallback]) => {
+        ;(window as any)[method] = function () {
+            reportBlocked(`${method}()`, "modals")
+            return fallback
         }
+    })
+}
+
+if (!policy.popups) {
+    window.open = function (url?: string | URL) {
+        reportBlocked(`window.open(${url ? String(url) : ""})`, "popups")
+        return null
     }
-})
+}
+
+if (!policy.formSending) {
+    document.addEventListener(
+        "submit",
+        (event) => {
+            const form = event.target as HTMLFormElement
+            reportBlocked(`form submission to ${form.action}`, "formSending")
+        },
+        true,
+    )
+}
 
-// 6. Signal ready
-if (window.parent) {
-    window.parent.postMessage("READY", "*")
+if (!policy.downloads) {
+    document.addEventListener(
+        "click",
+        (event) => {
+            const link = (event.target as Element).closest?.("a[download]")
+            if (link) {
+                reportBlocked(
+                    `download of ${(link as HTMLAnchorElement).href}`,
+                    "downloads",
+                )
+            }
+        },
+        true,
+    )
+}
+
+// 6. Storage policy
+// ephemeral storage is wiped by the outer frame before this frame loads
+if (decodeStorageMode(params.get("storage")) === "blocked") {
+    blockStorage((api) =>
+        send(
+            createLogMessage(
+                "warn",
+                `Blocked ${api}: storage is disabled by the storage policy`,
+                { capability: api, policy: "storage" },
+                "security",
+            ),
+        ),
+    )
+}
+
+// 7. Connection policy (WebSocket, EventSource, WebRTC)
+installConnectionGuards(
+    decodeConnectionPolicy(params),
+    (level, area, message, data) =>
+        send(createLogMessage(level, message, data, area)),
+)
+
+// 8. Network shims (opaqueOrigin)
+// An opaque-origin frame bypasses the Service Worker, so requests are
+// handed to the outer frame instead (see fetch-proxy.ts)
+const fetchProxy = params.has("opaque") ? createFetchProxy(send) : null
+if (fetchProxy) {
+    window.fetch = fetchProxy.fetch as typeof fetch
+    ;(window as any).XMLHttpRequest = fetchProxy.XMLHttpRequest
+}
+
+// 9. Execute code from outer frame and report the result back
+// Under require-trusted-types-for 'script' the Function constructor only
+// accepts TrustedScript arguments; code sent by the host is trusted
+const cspRules = decodeCSPRules(params.get("csp")) as CSPRules | undefined
+const scriptPolicy = cspRules?.requireTrustedTypes
+    ? (window as any).trustedTypes?.createPolicy("safe-sandbox", {
+          createScript: (code: string) => code,
+      })
+    : undefined
+const trustedScript = (code: string): string =>
+    scriptPolicy ? scriptPolicy.createScript(code) : code
+
+async function execute(id: string, code: string) {
+    try {
+        // eslint-disable-next-line no-new-func
+        const func = fetchProxy
+            ? new Function(
+                  trustedScript(IMPORT_SHIM),
+                  trustedScript(rewriteDynamicImports(code)),
+              )
+            : new Function(trustedScript(code))
+        const result = await func(fetchProxy?.import)
+        send({
+            type: "EXECUTION_RESULT",
+            id,
+            success: true,
+            result: result === undefined ? undefined : extractMetadata(result),
+        })
+    } catch (e) {
+        console.error("Execution Error:", e)
+        send({
+            type: "EXECUTION_RESULT",
+            id,
+            success: false,
+            error: extractMetadata(e),
+        })
+    }
+}
+
+// 10. Messages from outer frame
+function handleOuterMessage(data: any) {
+    if (data?.type?.startsWith?.("FETCH_")) {
+        fetchProxy?.handleMessage(data)
+    } else if (data?.type === "EXECUTE") {
+        execute(data.id, data.code)
+    } else if (data?.type === "FS_CHANGE") {
+        // Virtual file changes (SafeSandbox.fs), observable by user code
+        window.dispatchEvent(
+            new CustomEvent("fschange", { detail: { changes: data.changes } }),
+        )
+    } else if (data?.type === "PING") {
+        // Answer watchdog heartbeats (blocked while user code hogs the thread)
+        send({ type: "PONG", timestamp: data.timestamp })
+    }
 }
 
+// 11. Handshake: accept exactly one port, and only from the outer frame
+window.addEventListener("message", (event) => {
+    if (outerPort) return
+    if (!event.isTrusted) return
+    if (event.source !== window.parent) return
+    if (event.data?.type !== "CONNECT" || !event.ports[0]) return
+
+    outerPort = event.ports[0]
+    outerPort.onmessage = (e) => handleOuterMessage(e.data)
+
+    // Signal ready, then flush anything logged before the handshake
+    outerPort.postMessage("READY")
+    while (outbox.length > 0) {
+        const { message, transfer } = outbox.shift()!
+        outerPort.postMessage(message, transfer)
+    }
+})
+
 console.log("Inner frame loaded.")
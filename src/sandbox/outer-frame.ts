@@ -3,16 +3,64 @@
  * Handles Service Worker registration and message relay.
  */
 
+import { decodeExecutionPolicy, getSandboxTokens } from "../lib/execution"
+import { forwardableHeaders, headerEntries } from "./fetch-proxy"
+import { decodeStorageMode, wipeStorage } from "./storage"
+import { CONFIG_PARAM, readConfigParams } from "../lib/signed-config"
+import { checkRequestPolicy } from "../lib/request-policy"
+
 // 1. Origin Setup
 const innerFrame = document.getElementById("inner") as HTMLIFrameElement
-const params = new URLSearchParams(window.location.search)
+const params = readConfigParams(window.location.search)
+
+// Host Origin from the signed config: the server only serves this page
+// for a verified token, so the URL cannot name another host
+const HOST_ORIGIN = params.get("host")!
+
+// The signed config itself; the SW hands it to the server's CORS proxy,
+// which only fetches what the config allows
+const CONFIG_TOKEN = new URLSearchParams(window.location.search).get(
+    CONFIG_PARAM,
+)
+
+// The page embedding this frame must be the signed host. frame-ancestors
+// enforces it in the browser, ancestorOrigins (Chromium, WebKit) is
+// checked as well; nothing below runs for another embedder.
+const EMBEDDER = window.location.ancestorOrigins?.[0]
+if (EMBEDDER && EMBEDDER !== HOST_ORIGIN) {
+    document.body.textContent = `${EMBEDDER} is not allowed to embed this sandbox`
+    throw new Error(`Sandbox embedded by ${EMBEDDER}, expected ${HOST_ORIGIN}`)
+}
 
-// Prefer explicit Host Origin passed from parent, fallback only if missing
-const HOST_ORIGIN =
-    params.get("host") || window.location.origin.replace("sandbox.", "")
+// Cleanup frame (isolation="session"): SafeSandbox loads this page hidden
+// after disconnecting to remove the SW and caches of a session origin.
+// No inner frame and no SW registration in this mode.
+const CLEANUP = params.has("cleanup")
 
-// Load inner frame with same query params (for CSP propagation)
-innerFrame.src = "inner-frame.html" + window.location.search
+// opaqueOrigin: the inner frame runs without allow-same-origin and cannot
+// reach this frame; its requests come through the fetch proxy (section 5)
+const OPAQUE = params.has("opaque")
+
+// Apply execution policy before the first navigation: sandbox tokens
+// only take effect when the frame navigates
+innerFrame.setAttribute(
+    "sandbox",
+    getSandboxTokens(decodeExecutionPolicy(params.get("exec")), !OPAQUE),
+)
+
+// Load inner frame with the same signed config (for CSP propagation).
+// Ephemeral storage is wiped first so the inner frame never sees old data.
+if (!CLEANUP) {
+    const storageReady =
+        decodeStorageMode(params.get("storage")) === "ephemeral"
+            ? wipeStorage().catch((err) =>
+                  sendStatus("Storage: wipe failed: " + err.message, "warn"),
+              )
+            : Promise.resolve()
+    storageReady.then(() => {
+        innerFrame.src = "inner-frame.html" + window.location.search
+    })
+}
 
 // Type definitions for global state
 declare global {
@@ -23,19 +71,96 @@ declare global {
 
 window.pendingRules = null
 
+// 2. IPC Ports
+// The host transfers a dedicated MessagePort (CONNECT) and the outer frame
+// hands a second one to the inner frame. After the handshake no
+// infrastructure traffic uses window.postMessage, so other code in the
+// sandbox origin cannot inject or sniff it.
+let hostPort: MessagePort | null = null
+let innerPort: MessagePort | null = null
+const hostOutbox: { message: any; trusted: boolean }[] = []
+
+// Session nonce from the host's CONNECT. Infrastructure messages are tagged
+// with it so the host can tell them apart from relayed user-code messages.
+// Kept in module scope (unreachable from user code) and sent with
+// references captured before any user code runs, so a patched
+// MessagePort.prototype.postMessage cannot sniff it.
+let sessionNonce: string | null = null
+const portPostMessage = MessagePort.prototype.postMessage
+const apply = Reflect.apply
+
+function postToHost(message: any, trusted: boolean) {
+    if (!hostPort) {
+        hostOutbox.push({ message, trusted })
+        return
+    }
+    const { nonce: _, ...payload } = message
+    const tagged = trusted ? { ...payload, nonce: sessionNonce } : payload
+    apply(portPostMessage, hostPort, [tagged])
+}
+
+// Infrastructure message (outer frame or Service Worker)
+function sendToHost(message: any) {
+    postToHost(message, true)
+}
+
+// Message originating from the inner frame (user code context)
+function relayToHost(message: any) {
+    postToHost(message, false)
+}
+
 // Helper: Send status updates to host
 function sendStatus(status: string, level: "log" | "warn" | "error" = "log") {
-    window.parent.postMessage(
-        {
-            type: "LOG",
-            source: "outer",
-            level: level,
-            area: "system",
-            message: status,
-            timestamp: Date.now(),
-        },
-        HOST_ORIGIN,
-    )
+    sendToHost({
+        type: "LOG",
+        source: "outer",
+        level: level,
+        area: "system",
+        message: status,
+        timestamp: Date.now(),
+    })
+}
+
+// SW health credentials from the host (see SafeSandbox._checkHealth): the
+// rules version and the HMAC key the SW signs its status with. Module
+// scope, and sent with a postMessage captured before user code runs.
+let swCredentials: { rulesVersion: number; healthKey: ArrayBuffer } | null =
+    null
+const workerPostMessage = globalThis.ServiceWorker?.prototype.postMessage
+
+// Session and version of the host's virtual files (SafeSandbox.fs), sent
+// with every rule sync; the SW persists the tree under them
+let virtualFS: { session: string; version: number } | null = null
+
+function postToWorker(
+    worker: ServiceWorker,
+    message: any,
+    transfer: Transferable[] = [],
+) {
+    apply(workerPostMessage, worker, [message, transfer])
+}
+
+// Request hook (SafeSandbox.onRequest): the SW offers requests on a port
+// sent with every rule sync; they go to the host and its decisions back
+let requestHook: { timeoutMs?: number } | null = null
+let hookPort: MessagePort | null = null
+
+// A fresh channel per sync (a port is transferred once), none without hook
+function hookTransfer(): Transferable[] {
+    hookPort?.close()
+    hookPort = null
+    if (!requestHook) return []
+    const channel = new MessageChannel()
+    hookPort = channel.port1
+    hookPort.onmessage = (event) => {
+        if (event.data?.type === "INTERCEPT") {
+            sendToHost({
+                type: "INTERCEPT_REQUEST",
+                request: event.data.request,
+            })
+        }
+    }
+    return [channel.port2]
 }
 
 function syncRulesWithSW(rules: any) {
@@ -43,32 +168,155 @@ function syncRulesWithSW(rules: any) {
     navigator.serviceWorker.ready.then((registration) => {
         const worker = registration.active
         if (worker) {
-            worker.postMessage({
-                type: "UPDATE_RULES",
-                rules: rules,
-            })
+            postToWorker(
+                worker,
+                {
+                    type: "UPDATE_RULES",
+                    rules: rules,
+                    config: CONFIG_TOKEN,
+                    requestHook,
+                    fs: virtualFS,
+                    ...swCredentials,
+                },
+                hookTransfer(),
+            )
             sendStatus("SW: rules synced")
         }
     })
 }
 
-// 2. Service Worker Registration
-if ("serviceWorker" in navigator) {
-    sendStatus("SW: registering...")
+/**
+ * Sends a request to a Service Worker and resolves with its answer.
+ * The SW replies on a dedicated MessagePort.
+ */
+function requestWorker(worker: ServiceWorker | null, message: any) {
+    return new Promise<any>((resolve, reject) => {
+        if (!worker) {
+            reject(new Error("Service Worker is not active"))
+            return
+        }
+        const channel = new MessageChannel()
+        channel.port1.onmessage = (event) => {
+            channel.port1.close()
+            if (event.data?.success) {
+                resolve(event.data.result)
+            } else {
+                reject(new Error(event.data?.error))
+            }
+        }
+        postToWorker(worker, message, [channel.port2])
+    })
+}
+
+// Request to the active Service Worker
+function requestSW(message: any): Promise<any> {
+    return navigator.serviceWorker.ready.then((registration) =>
+        requestWorker(registration.active, message),
+    )
+}
+
+/**
+ * SW health for the host's monitor: registration and control state as seen
+ * by this frame, plus the SW's signed status. User code may have
+ * unregistered the SW, so nothing here trusts `serviceWorker.ready`.
+ */
+async function checkSWHealth(challenge: string) {
+    if (!("serviceWorker" in navigator)) {
+        return { supported: false }
+    }
+    const registration = await navigator.serviceWorker.getRegistration("/")
+    const active = registration?.active ?? null
+    const status = active
+        ? await requestWorker(active, { type: "STATUS", challenge }).catch(
+              () => null,
+          )
+        : null
+    return {
+        supported: true,
+        registered: !!registration,
+        active: !!active,
+        controlled: !!navigator.serviceWorker.controller,
+        status,
+    }
+}
+
+// Answers a host request (see SafeSandbox._request)
+function respondToHost(id: string, work: Promise<unknown>) {
+    work.then(
+        (result) => sendToHost({ type: "RESPONSE", id, success: true, result }),
+        (err) =>
+            sendToHost({
+                type: "RESPONSE",
+                id,
+                success: false,
+                error: err.message,
+            }),
+    )
+}
+
+/**
+ * Reports the origin's storage usage. Logs a security warning once when
+ * usage crosses the storageQuota from the rules (checked after executions).
+ */
+let storageQuotaExceeded = false
 
-    navigator.serviceWorker
-        .register("/outer-sw.js", {
-            scope: "/",
-            updateViaCache: "none",
-            type: "module",
+async function estimateStorage() {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    const limit: number | null = window.pendingRules?.storageQuota ?? null
+    const exceeded = limit !== null && usage > limit
+    if (exceeded && !storageQuotaExceeded) {
+        sendToHost({
+            type: "LOG",
+            source: "outer",
+            level: "warn",
+            area: "security",
+            message: `Storage quota exceeded: ${usage} of ${limit} bytes`,
+            data: { usage, quota, limit },
+            timestamp: Date.now(),
         })
+    }
+    storageQuotaExceeded = exceeded
+    return { usage, quota, limit }
+}
+
+// 3. Service Worker Registration
+function registerSW(): Promise<ServiceWorkerRegistration> {
+    return navigator.serviceWorker.register("/outer-sw.js", {
+        scope: "/",
+        updateViaCache: "none",
+        type: "module",
+    })
+}
+
+// Re-registers a removed SW (health monitor). A still active but
+// unregistered SW is revived; it claims the frames again on activation.
+async function repairSW() {
+    await registerSW()
+    await navigator.serviceWorker.ready
+    sendStatus("SW: re-registered", "warn")
+}
+
+if (CLEANUP) {
+    const registrations =
+        "serviceWorker" in navigator
+            ? navigator.serviceWorker.getRegistrations()
+            : Promise.resolve([])
+    registrations
+        .then((regs) => Promise.all(regs.map((r) => r.unregister())))
+        .then(() => caches.keys())
+        .then((keys) => Promise.all(keys.map((key) => caches.delete(key))))
+        .finally(() => sendToHost({ type: "CLEANUP_COMPLETE" }))
+} else if ("serviceWorker" in navigator) {
+    sendStatus("SW: registering...")
+
+    registerSW()
         .then((reg) => {
             sendStatus("SW: registered")
 
             const checkState = () => {
                 if (reg.active) {
                     sendStatus("SW: active")
-                    window.parent.postMessage("READY", HOST_ORIGIN)
+                    sendToHost({ type: "READY" })
                 } else {
                     setTimeout(checkState, 100)
                 }
@@ -87,81 +335,358 @@ if ("serviceWorker" in navigator) {
         }
     })
 
-    // Listen for messages from SW (Virtual File events only now)
+    // Listen for messages from SW (logs, navigations, restored files)
+    // Synthetic events dispatched by injected code are not trusted
     navigator.serviceWorker.addEventListener("message", (event) => {
+        if (!event.isTrusted) return
         if (event.data?.type === "LOG") {
-            window.parent.postMessage(event.data, HOST_ORIGIN)
+            sendToHost(event.data)
+        } else if (event.data?.type === "NAVIGATION") {
+            navigationResults.set(event.data.url, event.data)
+        } else if (event.data?.type === "FS_RESYNC") {
+            // A (re)started SW asks for the host's virtual files
+            sendToHost({ type: "FS_RESYNC" })
         }
     })
 } else {
     sendStatus("SW: not supported", "error")
 }
 
-// 3. Message Handler - Unified relay and trace
+// 4. Message Handler - Unified relay and trace
 let innerFrameReady = false
 let executionQueue: any[] = []
 
-window.addEventListener("message", (event) => {
-    const data = event.data
+// Page loaded via loadSrc() (null while the sandbox runtime page is shown).
+// hasRuntime: the SW injected the inner runtime (captureContentDebug).
+let loadedSrc: {
+    url: string
+    frameUrl: string
+    loaded: boolean
+    hasRuntime: boolean
+} | null = null
+const navigationResults = new Map<
+    string,
+    { url: string; status: number; error?: string; telemetry: boolean }
+>()
+
+const NO_RUNTIME_ERROR =
+    "execute() is unavailable: the page loaded with loadSrc() has no sandbox runtime (enable captureContentDebug)"
+
+// A loaded page that will never answer over the inner port
+function isPageWithoutRuntime(): boolean {
+    return !!loadedSrc?.loaded && !loadedSrc.hasRuntime
+}
+
+function rejectExecution(data: any, message: string) {
+    relayToHost({
+        type: "EXECUTION_RESULT",
+        id: data.id,
+        success: false,
+        error: { _type: "Error", name: "Error", message },
+    })
+}
+
+/**
+ * Navigates the inner frame to a virtual file / same-origin path, or to an
+ * external page through the SW load route (same CSP and firewall).
+ */
+function loadSrc(url: string) {
+    const target = new URL(url, window.location.href)
+
+    // Navigations of an opaque-origin frame bypass the SW (virtual files,
+    // /_load), so pages could escape the firewall
+    if (OPAQUE) {
+        sendToHost({
+            type: "LOAD_ERROR",
+            url: target.href,
+            status: 0,
+            error: "loadSrc() is unavailable with opaqueOrigin",
+        })
+        return
+    }
+
+    const frameUrl =
+        target.origin === window.location.origin
+            ? target.href
+            : new URL(
+                  "/_load?url=" + encodeURIComponent(target.href),
+                  window.location.href,
+              ).href
+
+    loadedSrc = { url: target.href, frameUrl, loaded: false, hasRuntime: false }
+    innerFrameReady = false
+    navigationResults.delete(frameUrl)
+    innerFrame.src = frameUrl
+}
+
+// A. Messages from Host
+function handleHostMessage(data: any) {
     if (!data) return
 
-    const isHost = event.source === window.parent
-    const isInner = event.source === innerFrame.contentWindow
-    const originMatch = event.origin === HOST_ORIGIN
+    if (data.type === "EXECUTE") {
+        if (innerFrameReady && innerPort) {
+            innerPort.postMessage(data)
+        } else if (isPageWithoutRuntime()) {
+            rejectExecution(data, NO_RUNTIME_ERROR)
+        } else {
+            executionQueue.push(data)
+        }
+    } else if (data.type === "PING") {
+        // Heartbeat: only a live inner frame can answer, so a frozen
+        // frame (runaway loop) is detected by the host watchdog.
+        // A loaded page without runtime shares this frame's event loop,
+        // so answering here still detects a frozen page. A page with the
+        // injected runtime answers itself once it sent READY.
+        if (innerFrameReady) {
+            innerPort?.postMessage(data)
+        } else if (isPageWithoutRuntime()) {
+            sendToHost({ type: "PONG", timestamp: data.timestamp })
+        }
+    } else if (data.type === "LOAD_SRC") {
+        loadSrc(data.url)
+    } else if (data.type === "SET_NETWORK_RULES") {
+        window.pendingRules = data.rules
+        requestHook = data.requestHook ?? null
+        virtualFS = data.fs ?? null
+        swCredentials = {
+            rulesVersion: data.rulesVersion,
+            healthKey: data.healthKey,
+        }
+        syncRulesWithSW(data.rules)
+    } else if (data.type === "INTERCEPT_DECISION") {
+        hookPort?.postMessage({
+            id: data.id,
+            decision: data.decision,
+            error: data.error,
+        })
+    } else if (data.type === "FS_PATCH") {
+        // User code learns about changes once the SW serves them
+        respondToHost(
+            data.id,
+            requestSW({
+                type: "FS_PATCH",
+                ops: data.ops,
+                session: data.session,
+                version: data.version,
+            }).then((applied) => {
+                // A refused patch changed nothing
+                if (applied) {
+                    innerPort?.postMessage({
+                        type: "FS_CHANGE",
+                        changes: data.changes,
+                    })
+                }
+                return applied
+            }),
+        )
+    } else if (
+        data.type === "CACHE_CLEAR" ||
+        data.type === "CACHE_INSPECT" ||
+        data.type === "NETWORK_JOURNAL" ||
+        data.type === "FIXTURES_EXPORT"
+    ) {
+        respondToHost(data.id, requestSW({ type: data.type }))
+    } else if (data.type === "HEALTH_CHECK") {
+        respondToHost(data.id, checkSWHealth(data.challenge))
+    } else if (data.type === "SW_REPAIR") {
+        respondToHost(data.id, repairSW())
+    } else if (data.type === "STORAGE_CLEAR") {
+        respondToHost(data.id, wipeStorage())
+    } else if (data.type === "STORAGE_ESTIMATE") {
+        respondToHost(data.id, estimateStorage())
+    } else if (data.type === "RESET") {
+        navigator.serviceWorker.getRegistrations().then((regs) => {
+            Promise.all(regs.map((r) => r.unregister())).then(() => {
+                sendToHost({ type: "RESET_COMPLETE" })
+            })
+        })
+    }
+}
 
-    // A. Messages from Host
-    if (isHost || (originMatch && event.source !== innerFrame.contentWindow)) {
-        if (data.type === "EXECUTE") {
-            if (innerFrameReady && innerFrame.contentWindow) {
-                innerFrame.contentWindow.postMessage(data, "*")
-            } else {
-                executionQueue.push(data)
-            }
-        } else if (data.type === "SET_NETWORK_RULES") {
-            window.pendingRules = data.rules
-            syncRulesWithSW(data.rules)
-        } else if (data.type === "RESET") {
-            navigator.serviceWorker.getRegistrations().then((regs) => {
-                Promise.all(regs.map((r) => r.unregister())).then(() => {
-                    window.parent.postMessage(
-                        { type: "RESET_COMPLETE" },
-                        HOST_ORIGIN,
-                    )
-                })
+// B. Messages from Inner Frame
+function handleInnerMessage(data: any) {
+    if (!data) return
+
+    if (data === "READY") {
+        // Once per inner document: user code could replay it on the port
+        if (innerFrameReady) return
+        innerFrameReady = true
+
+        while (executionQueue.length > 0) {
+            innerPort?.postMessage(executionQueue.shift())
+        }
+
+        // Signal to host
+        sendToHost({ type: "READY" })
+    } else if (OPAQUE && data.type === "FETCH") {
+        proxyFetch(data, innerPort!)
+    } else if (data.type === "FETCH_ABORT") {
+        proxiedFetches.get(data.id)?.abort()
+    } else if (data.type === "CSP_VIOLATION") {
+        // For the SW's network journal (CSP blocks never reach the SW)
+        const worker = navigator.serviceWorker?.controller
+        if (worker) {
+            postToWorker(worker, {
+                type: "JOURNAL_CSP",
+                url: data.blockedUri,
+                directive: data.violatedDirective,
+                timestamp: data.timestamp,
             })
         }
-        return
+    } else if (
+        data.type === "LOG" ||
+        data.type === "EXECUTION_RESULT" ||
+        data.type === "PONG"
+    ) {
+        // Relay inner logs, execution results and heartbeats to host
+        relayToHost(data)
+        if (
+            data.type === "EXECUTION_RESULT" &&
+            window.pendingRules?.storageQuota
+        ) {
+            estimateStorage().catch(() => {})
+        }
     }
+}
 
-    // B. Messages from Inner Frame
-    if (isInner) {
-        if (data === "READY") {
-            innerFrameReady = true
+// Host handshake: the only window message the outer frame accepts
+window.addEventListener("message", (event) => {
+    if (!event.isTrusted) return
+    if (event.source !== window.parent) return
+    if (event.origin !== HOST_ORIGIN) return
+    if (event.data?.type !== "CONNECT" || !event.ports[0]) return
 
-            if (executionQueue.length > 0) {
-                while (executionQueue.length > 0) {
-                    const qData = executionQueue.shift()
-                    innerFrame.contentWindow?.postMessage(qData, "*")
-                }
-            }
+    hostPort?.close()
+    hostPort = event.ports[0]
+    hostPort.onmessage = (e) => handleHostMessage(e.data)
+    sessionNonce = event.data.nonce
+
+    while (hostOutbox.length > 0) {
+        const { message, trusted } = hostOutbox.shift()!
+        postToHost(message, trusted)
+    }
+})
+
+// Inner handshake: a fresh channel for every inner document
+innerFrame.addEventListener("load", () => {
+    innerFrameReady = false
+    innerPort?.close()
 
-            // Signal to host
-            window.parent.postMessage("READY", HOST_ORIGIN)
-        } else if (data.type === "LOG") {
-            // Relay inner logs to host
-            window.parent.postMessage(data, HOST_ORIGIN)
+    if (loadedSrc && !loadedSrc.loaded) {
+        loadedSrc.loaded = true
+        const result = navigationResults.get(loadedSrc.frameUrl)
+        loadedSrc.hasRuntime = !!result?.telemetry
+        navigationResults.clear()
+        if (result?.error) {
+            sendToHost({
+                type: "LOAD_ERROR",
+                url: loadedSrc.url,
+                status: result.status,
+                error: result.error,
+            })
+        } else {
+            sendToHost({ type: "LOADED", url: loadedSrc.url })
+        }
+
+        // Pages without the sandbox runtime cannot run queued code; with the
+        // injected runtime the queue is flushed on its READY
+        while (isPageWithoutRuntime() && executionQueue.length > 0) {
+            rejectExecution(executionQueue.shift(), NO_RUNTIME_ERROR)
         }
-        return
     }
+
+    const channel = new MessageChannel()
+    innerPort = channel.port1
+    innerPort.onmessage = (e) => handleInnerMessage(e.data)
+    // An opaque-origin document only matches the "*" target
+    innerFrame.contentWindow?.postMessage(
+        { type: "CONNECT" },
+        OPAQUE ? "*" : window.location.origin,
+        [channel.port2],
+    )
 })
 
-// 4. Service Worker Message Listener
-if ("serviceWorker" in navigator) {
-    navigator.serviceWorker.addEventListener("message", (event) => {
-        const data = event.data
-        if (data?.type === "LOG") {
-            // Log relay from SW
-            window.parent.postMessage(data, HOST_ORIGIN)
+// 5. Fetch Proxy (opaqueOrigin)
+// Requests of the opaque inner frame are performed here, so they pass the
+// SW firewall and this frame's CSP. The body is streamed back in chunks.
+// This frame's fetch runs with the sandbox origin: requests are checked
+// against the rules first and never carry its cookies or credentials.
+const proxiedFetches = new Map<string, AbortController>()
+
+async function proxyFetch(data: any, port: MessagePort) {
+    const reply = (message: any, transfer: Transferable[] = []) =>
+        port.postMessage({ ...message, id: data.id }, transfer)
+
+    const method = String(data.method ?? "GET").toUpperCase()
+    let url: URL
+    try {
+        url = new URL(data.url, window.location.href)
+    } catch {
+        reply({
+            type: "FETCH_ERROR",
+            error: { name: "TypeError", message: "Failed to parse URL" },
+        })
+        return
+    }
+    const violation = checkRequestPolicy(
+        { method, destination: "" },
+        url,
+        window.pendingRules ?? {},
+        new URL(window.location.href),
+    )
+    if (violation) {
+        sendToHost({
+            type: "LOG",
+            source: "outer",
+            level: "error",
+            area: "security",
+            message: `Blocked: ${method} ${url.href} - ${violation.message}`,
+            data: {
+                url: url.href,
+                method,
+                rule: violation.rule,
+                ...violation.data,
+            },
+            timestamp: Date.now(),
+        })
+        reply({
+            type: "FETCH_ERROR",
+            error: { name: "TypeError", message: "Failed to fetch" },
+        })
+        return
+    }
+
+    const controller = new AbortController()
+    proxiedFetches.set(data.id, controller)
+    try {
+        const response = await fetch(url, {
+            method,
+            headers: forwardableHeaders(data.headers ?? []),
+            body: data.body,
+            redirect: data.redirect,
+            credentials: "omit",
+            signal: controller.signal,
+        })
+        reply({
+            type: "FETCH_RESPONSE",
+            status: response.status,
+            statusText: response.statusText,
+            url: response.url,
+            headers: headerEntries(response.headers),
+        })
+        const reader = response.body?.getReader()
+        while (reader) {
+            const { done, value } = await reader.read()
+            if (done) break
+            reply({ type: "FETCH_CHUNK", chunk: value }, [value.buffer])
         }
-    })
+        reply({ type: "FETCH_END" })
+    } catch (err: any) {
+        reply({
+            type: "FETCH_ERROR",
+            error: { name: err.name, message: err.message },
+        })
+    } finally {
+        proxiedFetches.delete(data.id)
+    }
 }
@@ -1,6 +1,7 @@
 /**
  * Sandbox Service Worker (Outer Frame)
- * Implements network firewall (allowlist) and in-memory filesystem.
+ * Implements network firewall (allowlist, methods, protocols, size limits)
+ * and in-memory filesystem (persisted to IndexedDB, see fs-store.ts).
  */
 
 /// <reference lib="webworker" />
@@ -9,7 +10,31 @@ declare const self: ServiceWorkerGlobalScope
 
 // ============ IPC Utilities (inlined) ============
 
-import type { LogMessage, NetworkRules } from "../lib/types"
+import type {
+    CacheEntry,
+    FSOperation,
+    InterceptedRequest,
+    JournalEntry,
+    JournalSource,
+    LogMessage,
+    NetworkFixture,
+    NetworkFixtureBundle,
+    NetworkRules,
+    RequestDecision,
+    VirtualFile,
+} from "../lib/types"
+import { generateCSP } from "../../server/csp-firewall"
+import { resolveConnectionPolicy } from "../lib/connections"
+import { checkAllowRules } from "../lib/allow-rules"
+import { CONFIG_PARAM } from "../lib/signed-config"
+import {
+    checkRequestPolicy as checkPolicy,
+    proxyEndpoint,
+    type PolicyViolation,
+} from "../lib/request-policy"
+import { headerEntries } from "./fetch-proxy"
+import { fixtureKey } from "../lib/fixtures"
+import { loadFS, patchFS, saveFS } from "./fs-store"
 
 const ipc = {
     async send(
@@ -79,10 +104,36 @@ const ipc = {
 const CACHE_NAME = "sandbox-cache-v15"
 const ASSETS_TO_CACHE: string[] = []
 
+// Default strategy can be set via `outer-sw.js?strategy=<value>`;
+// NetworkRules.cacheStrategy overrides it. Without either nothing is cached.
+type CacheStrategy = NonNullable<NetworkRules["cacheStrategy"]>
+const CACHE_STRATEGIES: CacheStrategy[] = [
+    "network-first",
+    "cache-first",
+    "network-only",
+]
+const strategyParam = new URL(self.location.href).searchParams.get("strategy")
+const DEFAULT_CACHE_STRATEGY: CacheStrategy = CACHE_STRATEGIES.includes(
+    strategyParam as CacheStrategy,
+)
+    ? (strategyParam as CacheStrategy)
+    : "network-only"
+
 // Virtual Files: in-memory filesystem for sandbox
-let virtualFiles: Record<string, string> = {}
+let virtualFiles: Record<string, string | VirtualFile> = {}
 let currentRules: NetworkRules = {}
 
+// Health status (SafeSandbox health monitor): the version of the rules in
+// effect and the host's HMAC key, both from the last UPDATE_RULES. Lost when
+// the browser stops the SW; the host then sees an unsigned status and
+// resends the rules.
+let rulesVersion: number | null = null
+let healthKey: Promise<CryptoKey> | null = null
+
+// Signed config of the outer frame, sent with the rules. The CORS proxy
+// only serves requests that carry it.
+let configToken: string | null = null
+
 self.addEventListener("install", (event) => {
     event.waitUntil(
         caches.open(CACHE_NAME).then((cache) => {
@@ -105,13 +156,120 @@ self.addEventListener("activate", (event) => {
     self.clients.claim()
 })
 
+/**
+ * Answers a request from the outer frame on the MessagePort it transferred.
+ */
+function respond(event: ExtendableMessageEvent, work: Promise<unknown>) {
+    const port = event.ports[0]
+    event.waitUntil(
+        work.then(
+            (result) => port?.postMessage({ success: true, result }),
+            (err) => port?.postMessage({ success: false, error: err.message }),
+        ),
+    )
+}
+
+async function inspectCache(): Promise<CacheEntry[]> {
+    const cache = await caches.open(CACHE_NAME)
+    const requests = await cache.keys()
+    return Promise.all(
+        requests.map(async (request) => {
+            const response = await cache.match(request)
+            return {
+                url: request.url,
+                method: request.method,
+                status: response?.status ?? 0,
+                contentType: response?.headers.get("Content-Type") ?? null,
+                size: response ? (await response.blob()).size : 0,
+            }
+        }),
+    )
+}
+
+/**
+ * Signs `<challenge>:<rulesVersion>` so the host can tell this SW apart
+ * from a stand-in answering for it.
+ */
+async function signedStatus(challenge: string) {
+    if (!healthKey) return { rulesVersion, signature: null }
+    const signature = await crypto.subtle.sign(
+        "HMAC",
+        await healthKey,
+        new TextEncoder().encode(`${challenge}:${rulesVersion}`),
+    )
+    return { rulesVersion, signature }
+}
+
+// Rule and file changes that only the outer frame may send
+const OUTER_FRAME_MESSAGES = new Set(["UPDATE_RULES", "FS_PATCH"])
+
+/**
+ * Whether a message comes from an outer frame embedded by its host. User
+ * code shares the origin and can post to the SW as well, but its messages
+ * come from the inner frame's client (the incumbent realm), or from an
+ * outer frame page it opened as a popup.
+ */
+function fromOuterFrame(source: ExtendableMessageEvent["source"]): boolean {
+    return (
+        source instanceof WindowClient &&
+        source.frameType === "nested" &&
+        new URL(source.url).pathname === "/outer-frame.html"
+    )
+}
+
 self.addEventListener("message", (event) => {
-    if (event.data?.type === "UPDATE_FILES") {
-        virtualFiles = event.data.files ?? {}
+    if (
+        OUTER_FRAME_MESSAGES.has(event.data?.type) &&
+        !fromOuterFrame(event.source)
+    ) {
+        ipc.send(
+            "warn",
+            "security",
+            `SW: refused ${event.data.type} from a client that is not an outer frame`,
+        )
+        return
+    }
+
+    if (event.data?.type === "STATUS") {
+        respond(event, signedStatus(String(event.data.challenge)))
+    } else if (event.data?.type === "CACHE_CLEAR") {
+        respond(event, caches.delete(CACHE_NAME))
+    } else if (event.data?.type === "CACHE_INSPECT") {
+        respond(event, inspectCache())
+    } else if (event.data?.type === "FIXTURES_EXPORT") {
+        respond(event, Promise.resolve(exportFixtures()))
+    } else if (event.data?.type === "NETWORK_JOURNAL") {
+        respond(event, Promise.resolve(journal))
+    } else if (event.data?.type === "JOURNAL_CSP") {
+        journalCSPBlock(event.data)
+    } else if (event.data?.type === "FS_PATCH") {
+        respond(
+            event,
+            filesReady.then(() => patchVirtualFiles(event.data)),
+        )
     } else if (event.data?.type === "UPDATE_RULES") {
+        const wasRecording = currentRules.network?.mode === "record"
         currentRules = event.data.rules ?? {}
+        // A new recording starts empty; resyncs keep it
+        if (currentRules.network?.mode === "record" && !wasRecording) {
+            recordedFixtures.clear()
+        }
+        rulesVersion = event.data.rulesVersion ?? null
+        configToken = event.data.config ?? null
+        setRequestHook(event.data.requestHook ? event.ports[0] : undefined, {
+            timeoutMs: event.data.requestHook?.timeoutMs,
+        })
+        healthKey = event.data.healthKey
+            ? crypto.subtle.importKey(
+                  "raw",
+                  event.data.healthKey,
+                  { name: "HMAC", hash: "SHA-256" },
+                  false,
+                  ["sign"],
+              )
+            : null
         if (currentRules.files) {
-            virtualFiles = currentRules.files
+            syncVirtualFiles(currentRules.files, event.data.fs)
         }
         ipc.send(
             "log",
@@ -121,60 +279,1147 @@ self.addEventListener("message", (event) => {
     }
 })
 
+// Sandbox infrastructure files are never filtered or logged
+const INFRA_PATHS = new Set([
+    "/",
+    "/index.html",
+    "/outer-frame.html",
+    "/inner-frame.html",
+    "/outer-sw.js",
+    "/outer-frame.js",
+    "/inner-frame.js",
+    "/inner-telemetry.js",
+    "/utils.js",
+])
+
+function isInfrastructure(url: URL): boolean {
+    return url.origin === self.location.origin && INFRA_PATHS.has(url.pathname)
+}
+
+// ============ Virtual Files ============
+// Entries are plain strings or descriptors with a typed body, status and
+// headers. Binary bodies arrive as Blobs (see SafeSandbox.toPortableFiles).
+
+const MIME_TYPES: Record<string, string> = {
+    html: "text/html; charset=utf-8",
+    htm: "text/html; charset=utf-8",
+    css: "text/css; charset=utf-8",
+    js: "text/javascript; charset=utf-8",
+    mjs: "text/javascript; charset=utf-8",
+    json: "application/json; charset=utf-8",
+    txt: "text/plain; charset=utf-8",
+    svg: "image/svg+xml",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    ico: "image/x-icon",
+    wasm: "application/wasm",
+    woff2: "font/woff2",
+}
+
+function inferContentType(path: string, body: VirtualFile["body"]): string {
+    const extension = path.split(".").pop()?.toLowerCase() ?? ""
+    if (MIME_TYPES[extension]) return MIME_TYPES[extension]
+    if (typeof body === "string") return "text/plain; charset=utf-8"
+    if (body instanceof Blob && body.type) return body.type
+    return "application/octet-stream"
+}
+
+// The tree is mirrored to IndexedDB with the session and version of the
+// host's SandboxFS. User code can change the database, so a restarted SW
+// always asks the host for its tree. If a tree was restored, requests wait
+// for the host's and fall back to the restored one if it does not answer
+// in time. Until then the SW holds no session: patches are refused and the
+// host's tree is written back in full.
+let fsSession: string | null = null
+let fsVersion = 0
+const FS_RESYNC_TIMEOUT_MS = 2000
+let hostSynced = false
+let resolveHostSync: () => void = () => {}
+const hostSync = new Promise<void>((resolve) => {
+    resolveHostSync = resolve
+})
+
+function persist(work: Promise<void>): void {
+    work.catch((err) =>
+        ipc.send(
+            "warn",
+            "security",
+            `SW: virtual files not persisted: ${err.message}`,
+        ),
+    )
+}
+
+/**
+ * Takes the tree of a full rule sync. Resyncs of an unchanged tree are not
+ * written again.
+ */
+function syncVirtualFiles(
+    files: Record<string, string | VirtualFile>,
+    fs?: { session: string; version: number },
+): void {
+    virtualFiles = files
+    hostSynced = true
+    resolveHostSync()
+    if (!fs || (fs.session === fsSession && fs.version === fsVersion)) return
+    fsSession = fs.session
+    fsVersion = fs.version
+    persist(saveFS({ session: fsSession, version: fsVersion, files }))
+}
+
+/**
+ * Applies an incremental update from SafeSandbox.fs. A patch only applies
+ * on top of the version it was made for; false makes the host resend the
+ * whole tree.
+ */
+function patchVirtualFiles(data: {
+    ops: FSOperation[]
+    session: string
+    version: number
+}): boolean {
+    if (data.session !== fsSession || data.version !== fsVersion + 1) {
+        return false
+    }
+    for (const op of data.ops) {
+        if (op.op === "write") {
+            virtualFiles[op.path] = op.file
+        } else {
+            delete virtualFiles[op.path]
+        }
+    }
+    fsVersion = data.version
+    persist(patchFS(fsSession, fsVersion, data.ops))
+    return true
+}
+
+/**
+ * Asks the hosts of the outer frames to resend their tree.
+ */
+async function requestFSResync(): Promise<void> {
+    const clients = await self.clients.matchAll({ type: "window" })
+    for (const client of clients) {
+        client.postMessage({ type: "FS_RESYNC" })
+    }
+}
+
+// Runs on every SW start, so also after the browser stopped an idle SW.
+// Requests wait for the host's tree only if there is a restored one to
+// replace; without stored files they are served right away.
+const filesReady: Promise<void> = loadFS()
+    .then(async (stored) => {
+        // A rule sync that arrived in the meantime is newer
+        if (!stored || hostSynced) return false
+        const count = Object.keys(stored.files).length
+        if (count === 0) return false
+        virtualFiles = stored.files
+        await ipc.send(
+            "log",
+            "security",
+            `SW: restored ${count} virtual files (fs version ${stored.version}), waiting for the host`,
+        )
+        return true
+    })
+    .catch(async (err) => {
+        await ipc.send(
+            "warn",
+            "security",
+            `SW: virtual files not restored: ${err.message}`,
+        )
+        return false
+    })
+    .then(async (restored) => {
+        await requestFSResync()
+        if (!restored) return
+        await Promise.race([
+            hostSync,
+            new Promise<void>((resolve) =>
+                setTimeout(resolve, FS_RESYNC_TIMEOUT_MS),
+            ),
+        ])
+    })
+
+/**
+ * Exact path, or the directory index: "/docs/" serves "/docs/index.html".
+ */
+function resolveVirtualPath(pathname: string): string | null {
+    if (virtualFiles[pathname] !== undefined) return pathname
+    const index = pathname.endsWith("/")
+        ? `${pathname}index.html`
+        : `${pathname}/index.html`
+    if (virtualFiles[index] === undefined) return null
+    return index
+}
+
+function normalizeVirtualFile(
+    path: string,
+    file: string | VirtualFile,
+): Required<VirtualFile> {
+    const entry = typeof file === "string" ? { body: file } : file
+    return {
+        body: entry.body,
+        contentType: entry.contentType ?? inferContentType(path, entry.body),
+        status: entry.status ?? 200,
+        headers: entry.headers ?? {},
+    }
+}
+
+// ============ Request Firewall ============
+// CSP cannot express methods, schemes or size limits, so the SW enforces
+// allowMethods, allowProtocols and maxContentLength. The request checks
+// are shared with the outer frame's fetch proxy (lib/request-policy).
+
+function checkRequestPolicy(
+    request: Request,
+    url: URL,
+): PolicyViolation | null {
+    return checkPolicy(request, url, currentRules, new URL(self.location.href))
+}
+
+function reportViolation(
+    request: Request,
+    violation: PolicyViolation,
+): Promise<void> {
+    return ipc.send(
+        "error",
+        "security",
+        `Blocked: ${request.method} ${request.url} - ${violation.message}`,
+        {
+            url: request.url,
+            method: request.method,
+            rule: violation.rule,
+            ...violation.data,
+        },
+    )
+}
+
+/**
+ * Enforces maxContentLength. Responses announcing a larger Content-Length
+ * are rejected up front; streamed bodies are cut off once the limit is hit.
+ */
+async function enforceContentLength(
+    request: Request,
+    response: Response,
+): Promise<Response> {
+    const limit = currentRules.maxContentLength
+    if (limit === undefined || !response.body) return response
+    // Opaque responses have no readable body or headers
+    if (response.type === "opaque" || response.type === "opaqueredirect") {
+        return response
+    }
+
+    const violation = (received: number): PolicyViolation => ({
+        rule: "maxContentLength",
+        message: `response exceeds maxContentLength (${received} > ${limit} bytes)`,
+        data: { limit, received },
+    })
+
+    const declared = Number(response.headers.get("Content-Length"))
+    if (declared > limit) {
+        await reportViolation(request, violation(declared))
+        response.body.cancel()
+        return Response.error()
+    }
+
+    let received = 0
+    const limiter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength
+            if (received > limit) {
+                reportViolation(request, violation(received))
+                controller.error(
+                    new TypeError(
+                        `Response exceeds maxContentLength (${limit} bytes)`,
+                    ),
+                )
+                return
+            }
+            controller.enqueue(chunk)
+        },
+    })
+
+    return new Response(response.body.pipeThrough(limiter), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    })
+}
+
+// ============ CORS Proxy (proxyUrl) ============
+// Cross-origin requests that passed the firewall are sent through the
+// server's proxy (/_proxy on the sandbox origin) with the signed config.
+// The proxy checks the target against the signed allow rules again and
+// refuses private addresses. Navigations are never proxied.
+
+async function fetchUpstream(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const proxy = proxyEndpoint(currentRules, new URL(self.location.href))
+    if (
+        !proxy ||
+        !configToken ||
+        url.origin === self.location.origin ||
+        request.mode === "navigate"
+    ) {
+        return fetch(request)
+    }
+
+    proxy.searchParams.set("url", url.href)
+    proxy.searchParams.set(CONFIG_PARAM, configToken)
+    await ipc.send("log", "network", `Proxy: ${request.method} ${url.href}`, {
+        url: url.href,
+        method: request.method,
+    })
+    const response = await fetch(proxy.href, {
+        method: request.method,
+        headers: request.headers,
+        body:
+            request.method === "GET" || request.method === "HEAD"
+                ? undefined
+                : await request.arrayBuffer(),
+        credentials: "omit",
+        signal: request.signal,
+    })
+    // A fresh Response takes the URL of the original request, so the
+    // proxy URL (and the token in it) is not exposed to user code
+    return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    })
+}
+
+// ============ Request Hook (SafeSandbox.onRequest) ============
+// Requests that passed the firewall are offered to the host's handler on a
+// port from the outer frame, which relays them to SafeSandbox. The handler
+// allows, blocks, rewrites or answers them. Without a decision in time the
+// static rules decide alone. The port arrives with UPDATE_RULES, so a
+// resync (health monitor) restores it.
+
+const DEFAULT_REQUEST_HOOK_TIMEOUT_MS = 5000
+
+interface HookAnswer {
+    decision?: RequestDecision
+    error?: string
+}
+
+interface HookOutcome {
+    request: Request
+    response?: Response
+    blocked?: PolicyViolation
+}
+
+let requestHook: { port: MessagePort; timeoutMs: number } | null = null
+const pendingDecisions = new Map<string, (answer: HookAnswer) => void>()
+
+function setRequestHook(
+    port: MessagePort | undefined,
+    { timeoutMs = DEFAULT_REQUEST_HOOK_TIMEOUT_MS }: { timeoutMs?: number },
+) {
+    requestHook?.port.close()
+    // Decisions for the previous port can no longer arrive
+    for (const resolve of pendingDecisions.values()) {
+        resolve({ error: "request hook was replaced" })
+    }
+    pendingDecisions.clear()
+
+    requestHook = port ? { port, timeoutMs } : null
+    if (port) {
+        port.onmessage = (event) => {
+            const resolve = pendingDecisions.get(event.data?.id)
+            if (!resolve) return
+            pendingDecisions.delete(event.data.id)
+            resolve(event.data)
+        }
+    }
+}
+
+async function serializeRequest(
+    id: string,
+    request: Request,
+): Promise<InterceptedRequest> {
+    const hasBody = request.method !== "GET" && request.method !== "HEAD"
+    return {
+        id,
+        url: request.url,
+        method: request.method,
+        headers: Object.fromEntries(headerEntries(request.headers)),
+        body: hasBody ? await request.clone().arrayBuffer() : null,
+        destination: request.destination,
+    }
+}
+
+function askHost(request: InterceptedRequest): Promise<HookAnswer> {
+    const hook = requestHook!
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            pendingDecisions.delete(request.id)
+            resolve({ error: `no decision within ${hook.timeoutMs}ms` })
+        }, hook.timeoutMs)
+        pendingDecisions.set(request.id, (answer) => {
+            clearTimeout(timer)
+            resolve(answer)
+        })
+        hook.port.postMessage({ type: "INTERCEPT", request })
+    })
+}
+
+/**
+ * Builds the rewritten request. A new URL on another origin has to pass
+ * the allow rules: CSP does not apply to the SW's own fetches.
+ */
+async function rewriteRequest(
+    request: Request,
+    decision: Extract<RequestDecision, { action: "rewrite" }>,
+): Promise<HookOutcome> {
+    const url = new URL(decision.url ?? request.url, request.url)
+    const method = (decision.method ?? request.method).toUpperCase()
+    const hasBody = method !== "GET" && method !== "HEAD"
+    const rewritten = new Request(url, {
+        method,
+        headers: decision.headers ?? request.headers,
+        body: !hasBody
+            ? undefined
+            : decision.body !== undefined
+              ? decision.body
+              : await request.arrayBuffer(),
+        mode: request.mode,
+        credentials: request.credentials,
+        redirect: request.redirect,
+        signal: request.signal,
+    })
+
+    const violation = checkRequestPolicy(rewritten, url)
+    if (violation) return { request, blocked: violation }
+    // checkRequestPolicy skips allow rules until the first rules arrive
+    const movedOrigin =
+        url.origin !== new URL(request.url).origin &&
+        url.origin !== self.location.origin
+    if (movedOrigin && checkAllowRules(url, currentRules, self.location.port)) {
+        return {
+            request,
+            blocked: {
+                rule: "onRequest",
+                message: `rewrite to ${url.href} is not allowed by the rules`,
+                data: { rewrittenUrl: url.href },
+            },
+        }
+    }
+
+    await ipc.send(
+        "log",
+        "network",
+        `onRequest: rewrote ${request.method} ${request.url} -> ${method} ${url.href}`,
+        { url: request.url, method: request.method, rewrittenUrl: url.href },
+    )
+    return { request: rewritten }
+}
+
+/**
+ * Offers a request to the host's handler. Navigations are not offered:
+ * their CSP and load reporting stay with the SW.
+ */
+async function interceptRequest(request: Request): Promise<HookOutcome> {
+    if (!requestHook || request.mode === "navigate") return { request }
+
+    const { decision, error } = await askHost(
+        await serializeRequest(crypto.randomUUID(), request),
+    )
+    if (!decision) {
+        await ipc.send(
+            "warn",
+            "network",
+            `onRequest: ${request.method} ${request.url} - ${error ?? "no decision"}, static rules applied`,
+            { url: request.url, method: request.method, error },
+        )
+        return { request }
+    }
+
+    switch (decision.action) {
+        case "allow":
+            return { request }
+        case "block":
+            return {
+                request,
+                blocked: {
+                    rule: "onRequest",
+                    message: decision.reason
+                        ? `blocked by the host: ${decision.reason}`
+                        : "blocked by the host",
+                    data: { reason: decision.reason ?? null },
+                },
+            }
+        case "rewrite":
+            return rewriteRequest(request, decision)
+        case "respond":
+            return {
+                request,
+                response: new Response(decision.body ?? null, {
+                    status: decision.status ?? 200,
+                    statusText: decision.statusText,
+                    headers: decision.headers,
+                }),
+            }
+        default:
+            await ipc.send(
+                "warn",
+                "network",
+                `onRequest: unknown action for ${request.url}, static rules applied`,
+                { url: request.url, decision },
+            )
+            return { request }
+    }
+}
+
+// ============ Cache Strategies ============
+
+type CacheStatus = "hit" | "miss" | "bypass"
+
+function storeInCache(request: Request, response: Response): void {
+    if (!response.ok) return
+    const copy = response.clone()
+    caches
+        .open(CACHE_NAME)
+        .then((cache) => cache.put(request, copy))
+        .catch(() => {
+            // Body errored (e.g. cut off by maxContentLength) - not cached
+        })
+}
+
+/**
+ * The cache strategy in effect. Sandboxes whose storage must not outlive
+ * them (ephemeral, blocked) neither read nor fill the cache.
+ */
+function activeCacheStrategy(): CacheStrategy {
+    if (
+        currentRules.storage === "ephemeral" ||
+        currentRules.storage === "blocked"
+    ) {
+        return "network-only"
+    }
+    return currentRules.cacheStrategy ?? DEFAULT_CACHE_STRATEGY
+}
+
+/**
+ * Fetches a request according to the active cache strategy.
+ * Only GET requests are cached; everything else goes to the network.
+ */
+async function fetchWithStrategy(
+    request: Request,
+): Promise<{ response: Response; cache: CacheStatus }> {
+    const strategy = activeCacheStrategy()
+
+    const fromNetwork = async () =>
+        enforceContentLength(request, await fetchUpstream(request))
+
+    if (strategy === "network-only" || request.method !== "GET") {
+        return { response: await fromNetwork(), cache: "bypass" }
+    }
+
+    if (strategy === "cache-first") {
+        const cached = await caches.match(request, { cacheName: CACHE_NAME })
+        if (cached) return { response: cached, cache: "hit" }
+
+        const response = await fromNetwork()
+        storeInCache(request, response)
+        return { response, cache: "miss" }
+    }
+
+    // network-first: refresh the cache, fall back to it when offline
+    try {
+        const response = await fromNetwork()
+        storeInCache(request, response)
+        return { response, cache: "miss" }
+    } catch (err) {
+        const cached = await caches.match(request, { cacheName: CACHE_NAME })
+        if (cached) return { response: cached, cache: "hit" }
+        throw err
+    }
+}
+
+// ============ Network Journal (SafeSandbox.exportHar) ============
+// Structured record of the requests this SW handled, plus the CSP blocks
+// the outer frame forwards from the inner frame. Bounded, and lost when the
+// browser stops the SW.
+
+const JOURNAL_LIMIT = 1000
+const journal: JournalEntry[] = []
+
+function addJournalEntry(entry: JournalEntry): JournalEntry {
+    journal.push(entry)
+    if (journal.length > JOURNAL_LIMIT) journal.shift()
+    return entry
+}
+
+function journalRequest(request: Request, started: number) {
+    const hasBody = request.method !== "GET" && request.method !== "HEAD"
+    return {
+        started,
+        method: request.method,
+        url: request.url,
+        requestHeaders: headerEntries(request.headers),
+        requestBodySize: hasBody ? -1 : 0,
+    }
+}
+
+/**
+ * Records a response. Its body size and receive time are measured on a
+ * clone, which has to be taken before the response is handed out.
+ */
+function journalResponse(
+    request: Request,
+    started: number,
+    response: Response,
+    source: JournalSource,
+): void {
+    const headersAt = Date.now()
+    const entry = addJournalEntry({
+        ...journalRequest(request, started),
+        time: headersAt - started,
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders: headerEntries(response.headers),
+        responseBodySize: response.body || response.type === "opaque" ? -1 : 0,
+        mimeType: response.headers.get("Content-Type") ?? "",
+        wait: headersAt - started,
+        receive: 0,
+        source,
+    })
+    if (!response.body || response.bodyUsed) return
+
+    const reader = response.clone().body!.getReader()
+    const measure = async () => {
+        let size = 0
+        for (;;) {
+            const { done, value } = await reader.read()
+            if (done) break
+            size += value.byteLength
+        }
+        entry.responseBodySize = size
+        entry.receive = Date.now() - headersAt
+        entry.time = entry.wait + entry.receive
+    }
+    measure().catch(() => {
+        // Body errored or was cut off; the size stays unknown
+    })
+}
+
+function journalFailure(
+    request: Request,
+    started: number,
+    source: "blocked" | "error",
+    detail: { blockedBy?: string; error: string },
+): void {
+    const time = Date.now() - started
+    addJournalEntry({
+        ...journalRequest(request, started),
+        time,
+        status: 0,
+        statusText: "",
+        responseHeaders: [],
+        responseBodySize: -1,
+        mimeType: "",
+        wait: time,
+        receive: 0,
+        source,
+        ...detail,
+    })
+}
+
+/**
+ * CSP blocks never reach the SW. The inner frame reports them from
+ * `securitypolicyviolation`, which does not expose the method.
+ */
+function journalCSPBlock(data: {
+    url?: unknown
+    directive?: unknown
+    timestamp?: unknown
+}): void {
+    if (typeof data.url !== "string" || !/^(https?|wss?):/.test(data.url)) {
+        return // "inline", "eval" and the like are not requests
+    }
+    addJournalEntry({
+        started:
+            typeof data.timestamp === "number" ? data.timestamp : Date.now(),
+        time: 0,
+        method: "GET",
+        url: data.url,
+        requestHeaders: [],
+        requestBodySize: 0,
+        status: 0,
+        statusText: "",
+        responseHeaders: [],
+        responseBodySize: -1,
+        mimeType: "",
+        wait: 0,
+        receive: 0,
+        source: "csp",
+        blockedBy: String(data.directive),
+    })
+}
+
+// ============ Network Fixtures (NetworkRules.network) ============
+// record: responses of passthrough requests are kept as fixtures, latest
+// per method and URL. replay: passthrough requests are answered from the
+// fixtures only and never reach the network. Virtual files and onRequest
+// responses are served as usual in both modes.
+
+const NULL_BODY_STATUS = [101, 103, 204, 205, 304]
+// The recorded body is decoded and complete; cookies are never recorded
+const UNRECORDED_HEADERS = [
+    "content-encoding",
+    "content-length",
+    "transfer-encoding",
+    "set-cookie",
+]
+
+const recordedFixtures = new Map<string, NetworkFixture>()
+
+function isTextType(contentType: string): boolean {
+    return /^text\/|json|xml|javascript|svg/i.test(contentType)
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer)
+    let binary = ""
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return btoa(binary)
+}
+
+function fromBase64(data: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Records a response from a clone, taken before the response is handed
+ * out. Opaque responses have nothing to record.
+ */
+function recordFixture(request: Request, response: Response): void {
+    if (response.type === "opaque" || response.type === "error") return
+    const copy = response.clone()
+    copy.arrayBuffer()
+        .then((buffer) => {
+            const contentType = copy.headers.get("Content-Type") ?? ""
+            const headers: Record<string, string> = {}
+            copy.headers.forEach((value, name) => {
+                if (!UNRECORDED_HEADERS.includes(name)) headers[name] = value
+            })
+            const text = isTextType(contentType)
+            recordedFixtures.set(fixtureKey(request.method, request.url), {
+                method: request.method,
+                url: request.url,
+                status: copy.status,
+                statusText: copy.statusText,
+                headers,
+                body: text
+                    ? new TextDecoder().decode(buffer)
+                    : toBase64(buffer),
+                ...(text ? {} : { encoding: "base64" as const }),
+            })
+        })
+        .catch(() => {
+            // Body errored or was cut off (maxContentLength) - not recorded
+        })
+}
+
+function exportFixtures(): NetworkFixtureBundle {
+    return { version: 1, fixtures: [...recordedFixtures.values()] }
+}
+
+function replayFixture(request: Request): Response | null {
+    const key = fixtureKey(request.method, request.url)
+    const fixture = currentRules.network?.fixtures?.fixtures.find(
+        (entry) => fixtureKey(entry.method, entry.url) === key,
+    )
+    if (!fixture) return null
+
+    const body = NULL_BODY_STATUS.includes(fixture.status)
+        ? null
+        : fixture.encoding === "base64"
+          ? fromBase64(fixture.body)
+          : fixture.body
+    return new Response(body, {
+        status: fixture.status,
+        statusText: fixture.statusText,
+        headers: fixture.headers,
+    })
+}
+
+// ============ Page Loading (loadSrc) ============
+// Navigations of the inner frame get the sandbox CSP attached, since
+// responses built by the SW carry no server headers.
+// External pages are loaded through LOAD_PATH so the document stays on the
+// sandbox origin, under this SW and the same CSP.
+
+const LOAD_PATH = "/_load"
+
+function pageCSP(): string {
+    const connections = resolveConnectionPolicy(currentRules)
+    return generateCSP(
+        (currentRules.allow ?? []).join(","),
+        Number(self.location.port),
+        !!currentRules.scriptUnsafe,
+        undefined,
+        {
+            websockets: connections.websockets?.join(","),
+            eventSource: connections.eventSource?.join(","),
+        },
+        currentRules.csp,
+    )
+}
+
+function htmlPage(
+    html: BodyInit,
+    status = 200,
+    headers: HeadersInit = {},
+): Response {
+    return new Response(html, {
+        status,
+        headers: {
+            ...headers,
+            "Content-Type": "text/html; charset=utf-8",
+            "Content-Security-Policy": pageCSP(),
+        },
+    })
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+}
+
+// The <head> start tag, not <header>
+const HEAD_TAG = /<head(\s[^>]*)?>/i
+
+/**
+ * Inserts markup at the start of the page's <head>, or before everything
+ * if it has none.
+ */
+function insertIntoHead(html: string, markup: string): string {
+    return HEAD_TAG.test(html)
+        ? html.replace(HEAD_TAG, (head) => head + markup)
+        : markup + html
+}
+
+/**
+ * Fetches an allowed external page through the request pipeline and
+ * rewrites it to resolve relative URLs against its original location.
+ */
+async function loadExternalPage(
+    target: URL,
+    started: number,
+): Promise<Response> {
+    if (!["http:", "https:"].includes(target.protocol)) {
+        return htmlPage(
+            `Unsupported protocol: ${escapeHtml(target.protocol)}`,
+            400,
+        )
+    }
+    const request = new Request(target.href, { credentials: "omit" })
+    const violated =
+        target.origin === self.location.origin
+            ? null
+            : checkAllowRules(target, currentRules, self.location.port)
+    if (violated) {
+        journalFailure(request, started, "blocked", {
+            blockedBy: violated,
+            error: `loadSrc ${target.href} is not allowed`,
+        })
+        await ipc.send(
+            "error",
+            "security",
+            violated === "deny"
+                ? `Blocked: loadSrc ${target.href} - matches a deny rule`
+                : `Blocked: loadSrc ${target.href} - origin is not in the allow list`,
+            { url: target.href, rule: violated },
+        )
+        return htmlPage(
+            `Blocked by sandbox firewall: ${escapeHtml(target.href)}`,
+            403,
+        )
+    }
+
+    // Same path as requests of the page itself: method and size limits,
+    // onRequest, replay/record, cache strategy and the CORS proxy
+    const response = await handleRequest(request, started)
+    if (response.type === "error") {
+        return htmlPage(
+            `Blocked by sandbox firewall: ${escapeHtml(target.href)}`,
+            403,
+        )
+    }
+    const html = await response.text()
+    const base = `<base href="${escapeHtml(target.href)}">`
+    return htmlPage(insertIntoHead(html, base), response.status)
+}
+
+// ============ Content Debug Telemetry (captureContentDebug) ============
+// HTML pages served to the inner frame get the inner runtime prepended as a
+// classic script, so console output, errors and unhandled rejections of
+// loaded content reach the host like execute() logs.
+
+const withRuntime = new WeakSet<Response>()
+
+async function injectTelemetry(response: Response): Promise<Response> {
+    if (!currentRules.captureContentDebug) return response
+    const contentType = response.headers.get("Content-Type") ?? ""
+    if (!contentType.includes("text/html")) return response
+
+    // Absolute URL: loaded pages may carry a <base href> to another origin.
+    // The page's URL has no signed config, so the runtime reads its policy
+    // (connections, storage, execution) from the script URL.
+    const runtime = new URL("/inner-telemetry.js", self.location.origin)
+    if (configToken) runtime.searchParams.set(CONFIG_PARAM, configToken)
+    const bootstrap = `<script src="${escapeHtml(runtime.href)}"></script>`
+    const html = await response.text()
+    const rewritten = insertIntoHead(html, bootstrap)
+
+    const headers = new Headers(response.headers)
+    headers.delete("Content-Length")
+    const injected = new Response(rewritten, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+    })
+    withRuntime.add(injected)
+    return injected
+}
+
+/**
+ * Tells the outer frame how an inner frame navigation ended, since iframe
+ * load events do not expose HTTP errors. HTML responses get the telemetry
+ * bootstrap first.
+ */
+function reportNavigation(
+    request: Request,
+    work: Promise<Response>,
+): Promise<Response> {
+    const notify = async (
+        status: number,
+        error?: string,
+        telemetry = false,
+    ) => {
+        const clients = await self.clients.matchAll({ type: "window" })
+        for (const client of clients) {
+            client.postMessage({
+                type: "NAVIGATION",
+                url: request.url,
+                status,
+                error,
+                telemetry,
+            })
+        }
+    }
+    return work.then(injectTelemetry).then(
+        async (response) => {
+            await notify(
+                response.status,
+                response.ok ? undefined : `HTTP ${response.status}`,
+                withRuntime.has(response),
+            )
+            return response
+        },
+        async (err) => {
+            await notify(0, err.message)
+            throw err
+        },
+    )
+}
+
 self.addEventListener("fetch", (event) => {
     const url = new URL(event.request.url)
-    const ref = event.request.referrer
+
+    // Infrastructure is always fetched fresh (CSP depends on query params)
+    if (isInfrastructure(url)) {
+        event.respondWith(fetch(event.request))
+        return
+    }
+
+    // After a restart, virtual files are served once the host resent them
+    event.respondWith(filesReady.then(() => routeRequest(event, url)))
+})
+
+function routeRequest(
+    event: FetchEvent,
+    url: URL,
+): Response | Promise<Response> {
+    const isNavigation = event.request.mode === "navigate"
+    const started = Date.now()
 
     // 1. Virtual Files
-    const virtualPath = url.pathname
-    if (virtualFiles[virtualPath]) {
-        event.respondWith(
-            new Response(virtualFiles[virtualPath], {
-                headers: { "Content-Type": "text/plain" },
-            }),
+    const virtualPath = resolveVirtualPath(url.pathname)
+    // "/docs" -> "/docs/", so relative URLs of the index resolve inside it
+    if (
+        virtualPath &&
+        virtualPath !== url.pathname &&
+        !url.pathname.endsWith("/")
+    ) {
+        url.pathname += "/"
+        return Response.redirect(url.href, 301)
+    }
+    if (virtualPath) {
+        const file = normalizeVirtualFile(
+            virtualPath,
+            virtualFiles[virtualPath],
         )
-        return
+        const asPage = isNavigation && file.contentType.startsWith("text/html")
+        const response = asPage
+            ? htmlPage(file.body, file.status, file.headers)
+            : new Response(file.body, {
+                  status: file.status,
+                  headers: {
+                      ...file.headers,
+                      "Content-Type": file.contentType,
+                  },
+              })
+        journalResponse(event.request, started, response, "virtual")
+        return asPage
+            ? reportNavigation(event.request, Promise.resolve(response))
+            : response
+    }
+
+    // 2. External page for loadSrc()
+    if (url.origin === self.location.origin && url.pathname === LOAD_PATH) {
+        const target = new URL(url.searchParams.get("url") ?? "", url)
+        return reportNavigation(
+            event.request,
+            loadExternalPage(target, started),
+        )
+    }
+
+    // 3. Firewall, host hook, replay or network
+    const passthrough = handleRequest(event.request, started)
+    return isNavigation
+        ? reportNavigation(event.request, passthrough)
+        : passthrough
+}
+
+/**
+ * Everything but virtual files takes this path, including the pages
+ * loadSrc() fetches: firewall, the host's onRequest hook, then fixture
+ * replay or the network (cache strategy, CORS proxy, maxContentLength,
+ * recording). Blocked requests resolve with Response.error().
+ */
+async function handleRequest(
+    original: Request,
+    started: number,
+): Promise<Response> {
+    const url = new URL(original.url)
+
+    // Method / protocol / allow firewall
+    const violation = checkRequestPolicy(original, url)
+    if (violation) {
+        journalFailure(original, started, "blocked", {
+            blockedBy: violation.rule,
+            error: violation.message,
+        })
+        await reportViolation(original, violation)
+        return Response.error()
     }
 
-    // 2. Passthrough - CSP (set by server) will block if needed
-    event.respondWith(
-        fetch(event.request)
-            .then(async (response) => {
-                // Log successful fetch for telemetry (only for external/proxied requests)
-                const isInfra =
-                    url.pathname === "/outer-frame.html" ||
-                    url.pathname === "/inner-frame.html" ||
-                    url.pathname === "/outer-sw.js" ||
-                    url.pathname === "/index.html" ||
-                    url.pathname === "/"
+    // Host request hook (onRequest), then passthrough - CSP (set by
+    // server) will block if needed
+    return interceptRequest(original)
+        .then(async ({ request, response, blocked }) => {
+            if (blocked) {
+                journalFailure(original, started, "blocked", {
+                    blockedBy: blocked.rule,
+                    error: blocked.message,
+                })
+                await reportViolation(original, blocked)
+                return Response.error()
+            }
+            if (response) {
+                journalResponse(original, started, response, "onRequest")
+                await ipc.send(
+                    "log",
+                    "network",
+                    `Fetch: ${original.method} ${url.href} -> ${response.status} (onRequest)`,
+                    {
+                        url: url.href,
+                        method: original.method,
+                        status: response.status,
+                        intercepted: true,
+                    },
+                )
+                return response
+            }
 
-                if (!isInfra || url.searchParams.has("url")) {
+            // Fixture replay: no network access at all
+            if (currentRules.network?.mode === "replay") {
+                const replayed = replayFixture(request)
+                if (!replayed) {
+                    journalFailure(request, started, "blocked", {
+                        blockedBy: "network",
+                        error: "no fixture",
+                    })
                     await ipc.send(
-                        "log",
+                        "error",
                         "network",
-                        `Fetch: ${event.request.method} ${url.href} -> ${response.status}`,
-                        {
-                            url: url.href,
-                            method: event.request.method,
-                            status: response.status,
-                        },
+                        `Replay: no fixture for ${request.method} ${request.url}`,
+                        { url: request.url, method: request.method },
                     )
+                    return Response.error()
                 }
-                return response
-            })
-            .catch(async (err) => {
-                // Log failed fetch (could be CSP block or network error)
+                journalResponse(request, started, replayed, "replay")
                 await ipc.send(
-                    "error",
+                    "log",
                     "network",
-                    `Fetch Error: ${event.request.method} ${url.href} - ${err.message}`,
+                    `Fetch: ${request.method} ${request.url} -> ${replayed.status} (replay)`,
                     {
-                        url: url.href,
-                        method: event.request.method,
-                        error: err.message,
+                        url: request.url,
+                        method: request.method,
+                        status: replayed.status,
+                        replay: true,
                     },
                 )
-                throw err
-            }),
-    )
-})
+                return replayed
+            }
+
+            const fetched = await fetchWithStrategy(request)
+            if (currentRules.network?.mode === "record") {
+                recordFixture(request, fetched.response)
+            }
+            journalResponse(
+                request,
+                started,
+                fetched.response,
+                fetched.cache === "hit" ? "cache" : "network",
+            )
+            // Log fetch for telemetry, including cache hit/miss
+            await ipc.send(
+                "log",
+                "network",
+                `Fetch: ${request.method} ${request.url} -> ${fetched.response.status}${fetched.cache === "hit" ? " (cache)" : ""}`,
+                {
+                    url: request.url,
+                    method: request.method,
+                    status: fetched.response.status,
+                    cache: fetched.cache,
+                },
+            )
+            return fetched.response
+        })
+        .catch(async (err) => {
+            journalFailure(original, started, "error", {
+                error: err.message,
+            })
+            // Log failed fetch (could be CSP block or network error)
+            await ipc.send(
+                "error",
+                "network",
+                `Fetch Error: ${original.method} ${url.href} - ${err.message}`,
+                {
+                    url: url.href,
+                    method: original.method,
+                    error: err.message,
+                },
+            )
+            throw err
+        })
+}
@@ -0,0 +1,86 @@
+/**
+ * Storage Lifecycle
+ * Wipes and blocks the storage APIs of the sandbox origin
+ * (NetworkRules.storage). Used by the outer frame (wipe) and the inner
+ * frame (block).
+ */
+
+import type { StorageMode } from "../lib/types"
+
+const STORAGE_MODES: StorageMode[] = ["persistent", "ephemeral", "blocked"]
+
+/**
+ * Decodes the `storage` URL param. Unknown or missing values mean persistent.
+ */
+export function decodeStorageMode(param: string | null): StorageMode {
+    return STORAGE_MODES.includes(param as StorageMode)
+        ? (param as StorageMode)
+        : "persistent"
+}
+
+function deleteDatabase(name: string): Promise<void> {
+    return new Promise((resolve) => {
+        const request = indexedDB.deleteDatabase(name)
+        // "blocked": open connections delay the deletion, it still happens
+        request.onsuccess =
+            request.onerror =
+            request.onblocked =
+                () => resolve()
+    })
+}
+
+/**
+ * Clears localStorage, sessionStorage, cookies, IndexedDB and CacheStorage
+ * of the sandbox origin. HttpOnly cookies are out of reach of scripts.
+ */
+export async function wipeStorage(): Promise<void> {
+    localStorage.clear()
+    sessionStorage.clear()
+
+    for (const cookie of document.cookie.split(";")) {
+        const name = cookie.split("=")[0].trim()
+        if (name) {
+            document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`
+        }
+    }
+
+    const databases = (await indexedDB.databases?.()) ?? []
+    await Promise.all(
+        databases.map((db) => (db.name ? deleteDatabase(db.name) : null)),
+    )
+
+    const keys = await caches.keys()
+    await Promise.all(keys.map((key) => caches.delete(key)))
+}
+
+/**
+ * Makes the storage APIs of this window throw (cookies read as empty).
+ * Best effort: a fresh same-origin frame still has the native APIs, so
+ * hard isolation needs isolation="session" or opaqueOrigin.
+ */
+export function blockStorage(report: (api: string) => void) {
+    const apis = ["localStorage", "sessionStorage", "indexedDB", "caches"]
+    for (const api of apis) {
+        Object.defineProperty(window, api, {
+            configurable: false,
+            get() {
+                report(api)
+                throw new DOMException(
+                    `${api} is blocked by the sandbox storage policy`,
+                    "SecurityError",
+                )
+            },
+        })
+    }
+
+    Object.defineProperty(document, "cookie", {
+        configurable: false,
+        get() {
+            report("document.cookie")
+            return ""
+        },
+        set() {
+            report("document.cookie")
+        },
+    })
+}
@@ -75,13 +75,14 @@ export function createLogMessage(
     level: "log" | "warn" | "error",
     message: string,
     data = {},
+    area: "network" | "security" | "user-code" = "user-code",
 ) {
     return {
         type: "LOG",
         timestamp: Date.now(),
         source: "inner",
         level,
-        area: "user-code",
+        area,
         message,
         data,
     }
@@ -1,4 +1,5 @@
 import { test, expect, Page } from "@playwright/test"
+import { createServer, type Server } from "node:http"
 import { PRESETS } from "../../src/lib/presets"
 
 /**
@@ -42,19 +43,24 @@ async function executeAndWaitForLog(
     await expect(logsDiv).toContainText(expectedLogPattern, { timeout })
 }
 
+// Local stand-in for jsonplaceholder.typicode.com (test/fixtures/todo-api.ts,
+// started by playwright.config.ts), so no test needs a live third-party API
+const API = "http://localhost:3335"
+const API_RULES = { allow: [API], scriptUnsafe: true }
+
 // ============================================================================
-// Test: JSONPlaceholder (CORS Allowed, Direct Fetch)
+// Test: CORS-enabled API (Direct Fetch)
 // ============================================================================
-test.describe("JSONPlaceholder Preset", () => {
+test.describe("CORS-enabled API", () => {
     test("direct fetch succeeds without proxy", async ({ page }) => {
         await page.goto("/")
 
-        await setupSandbox(page, PRESETS.jsonplaceholder.rules)
+        await setupSandbox(page, API_RULES)
 
         await executeAndWaitForLog(
             page,
-            `fetch("https://jsonplaceholder.typicode.com/todos/1");`,
-            /Fetch.*jsonplaceholder/,
+            `fetch("${API}/todos/1");`,
+            /Fetch.*localhost:3335/,
         )
 
         // Should see 200 status
@@ -86,7 +92,8 @@ test.describe("Google Preset", () => {
         )
     })
 
-    // SKIPPED: Proxy functionality is currently disabled/deactivated.
+    // SKIPPED: Needs live www.google.com. The CORS Proxy tests cover the
+    // proxy with a local upstream.
     test.skip("fetch succeeds with proxy enabled", async ({ page }) => {
         await page.goto("/")
 
@@ -140,6 +147,111 @@ test.describe("Virtual Files", () => {
         )
         await expect(page.locator("#logs")).toContainText(/Data:.*Hello World/)
     })
+
+    test("typed virtual files infer content type and status", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            files: {
+                "/util.js": "export const add = (a, b) => a + b",
+                "/missing.json": { body: '{"error":"gone"}', status: 404 },
+            },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `import("/util.js").then(m => console.log("Sum:", m.add(2, 3)));`,
+            /Sum:.*5/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/missing.json").then(r => console.log("Status:", r.status, r.headers.get("Content-Type")));`,
+            /Status:.*404.*application\/json/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: Request Firewall (Service Worker)
+// ============================================================================
+test.describe("Request Firewall", () => {
+    test("disallowed method is blocked by the SW", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allowMethods: ["GET"], scriptUnsafe: true })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/data.json", { method: "POST" }).catch(() => {});`,
+            /Blocked: POST .*method POST is not allowed/,
+        )
+    })
+
+    test("user code cannot replace the SW rules", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allowMethods: ["GET"], scriptUnsafe: true })
+
+        await executeAndWaitForLog(
+            page,
+            `navigator.serviceWorker.controller.postMessage({ type: "UPDATE_RULES", rules: {} });
+parent.navigator.serviceWorker.controller.postMessage({ type: "UPDATE_RULES", rules: {} });`,
+            /SW: refused UPDATE_RULES from a client that is not an outer frame/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/data.json", { method: "POST" }).catch(() => {});`,
+            /Blocked: POST .*method POST is not allowed/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: Cache Strategy
+// ============================================================================
+test.describe("Cache Strategy", () => {
+    test("cache-first serves the second fetch from cache", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { ...API_RULES, cacheStrategy: "cache-first" })
+        await page.evaluate(() =>
+            (document.getElementById("sandbox") as any).clearCache(),
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/4")
+  .then(() => fetch("${API}/todos/4"));`,
+            /Fetch: GET .*todos\/4 -> 200 \(cache\)/,
+        )
+    })
+
+    test("ephemeral storage never fills the cache", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            cacheStrategy: "cache-first",
+            storage: "ephemeral",
+        })
+        await page.evaluate(() =>
+            (document.getElementById("sandbox") as any).clearCache(),
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/5").then(r => console.log("Fetched:", r.status));`,
+            /Fetched: 200/,
+        )
+        const entries = await page.evaluate(() =>
+            (document.getElementById("sandbox") as any).inspectCache(),
+        )
+        expect(entries).toEqual([])
+    })
 })
 
 // ============================================================================
@@ -202,6 +314,180 @@ test.describe.skip("Code Execution", () => {
     })
 })
 
+// ============================================================================
+// Test: Execution Results
+// ============================================================================
+test.describe("Execution Results", () => {
+    test("execute() resolves with the return value", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [], scriptUnsafe: true })
+
+        const results = await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            return Promise.all([
+                sandbox.execute("return 1 + 1"),
+                sandbox.execute("return Promise.resolve({ ok: true })"),
+            ])
+        })
+
+        expect(results).toEqual([2, { ok: true }])
+    })
+
+    test("execute() rejects with the thrown error", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [], scriptUnsafe: true })
+
+        const error = await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            return sandbox
+                .execute('throw new TypeError("boom")')
+                .catch((e: unknown) => e)
+        })
+
+        expect(error).toMatchObject({ name: "TypeError", message: "boom" })
+    })
+
+    test("runaway code is killed after timeoutMs", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [], scriptUnsafe: true })
+
+        const outcome = await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            const timedOut = new Promise((resolve) =>
+                sandbox.addEventListener("timeout", (e: CustomEvent) =>
+                    resolve(e.detail.reason),
+                ),
+            )
+            const error = sandbox
+                .execute("while(true){}", { timeoutMs: 1000 })
+                .catch((e: unknown) => e)
+            return Promise.all([error, timedOut])
+        })
+
+        expect(outcome).toEqual([
+            expect.objectContaining({ name: "TimeoutError" }),
+            "execution",
+        ])
+    })
+})
+
+// ============================================================================
+// Test: MessagePort handshake
+// ============================================================================
+test.describe("Port Handshake", () => {
+    test("no traffic uses window.postMessage and injected messages are ignored", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { scriptUnsafe: true })
+
+        const result = await page.evaluate(async () => {
+            const sandbox = document.getElementById("sandbox") as any
+            await sandbox.execute(`
+                window.windowMessages = 0
+                window.addEventListener("message", () => window.windowMessages++)
+                window.parent.postMessage({ type: "EXECUTE", id: "x", code: "window.injected = true" }, "*")
+                window.parent.postMessage({ type: "CONNECT", nonce: "x" }, "*")
+            `)
+            await new Promise((resolve) => setTimeout(resolve, 300))
+            await sandbox.execute('console.log("over the port")')
+            return sandbox.execute(
+                "return { messages: window.windowMessages, injected: !!window.injected }",
+            )
+        })
+
+        expect(result).toEqual({ messages: 0, injected: false })
+    })
+})
+
+// ============================================================================
+// Test: Trusted infrastructure messages
+// ============================================================================
+test.describe("Trusted Messages", () => {
+    test("messages forged by user code arrive untrusted", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { scriptUnsafe: true })
+
+        const result = await page.evaluate(async () => {
+            const sandbox = document.getElementById("sandbox") as any
+            const forged: any[] = []
+            let readyEvents = 0
+            sandbox.addEventListener("log", (e: CustomEvent) => {
+                if (e.detail.message === "forged") forged.push(e.detail)
+            })
+            sandbox.addEventListener("ready", () => readyEvents++)
+
+            // Grabs the inner frame's port to the outer frame
+            await sandbox.execute(`
+                const post = MessagePort.prototype.postMessage
+                let port
+                MessagePort.prototype.postMessage = function (...args) {
+                    port = this
+                    return post.apply(this, args)
+                }
+                console.log("capture")
+                MessagePort.prototype.postMessage = post
+                port.postMessage({ type: "LOG", source: "outer", level: "log", area: "system", message: "forged", timestamp: Date.now() })
+                port.postMessage({ type: "READY" })
+                port.postMessage("READY")
+            `)
+            await new Promise((resolve) => setTimeout(resolve, 500))
+            return { forged, readyEvents }
+        })
+
+        expect(result.forged).toEqual([
+            expect.objectContaining({ source: "outer", trusted: false }),
+        ])
+        expect(result.readyEvents).toBe(0)
+    })
+})
+
+// ============================================================================
+// Test: Execution Policy (iframe sandbox tokens)
+// ============================================================================
+test.describe("Execution Policy", () => {
+    test("disabled modals are left out of the tokens and reported", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            execution: { modals: false },
+        })
+
+        let dialogAppeared = false
+        page.on("dialog", async (dialog) => {
+            dialogAppeared = true
+            await dialog.dismiss()
+        })
+
+        const tokens = await page
+            .frameLocator("#sandbox iframe")
+            .locator("iframe#inner")
+            .getAttribute("sandbox")
+        expect(tokens?.split(" ")).toEqual(
+            expect.arrayContaining(["allow-scripts", "allow-same-origin"]),
+        )
+        expect(tokens).not.toContain("allow-modals")
+
+        await executeAndWaitForLog(
+            page,
+            `alert("Test alert"); console.log("After alert");`,
+            /After alert/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked alert\(\): 'modals' is disabled/,
+        )
+        expect(dialogAppeared).toBe(false)
+    })
+})
+
 // ============================================================================
 // Test: Log Message Schema
 // ============================================================================
@@ -210,11 +496,11 @@ test.describe.skip("Log Message Schema", () => {
     test("logs show source and area tags", async ({ page }) => {
         await page.goto("/")
 
-        await setupSandbox(page, PRESETS.jsonplaceholder.rules)
+        await setupSandbox(page, API_RULES)
 
         await executeAndWaitForLog(
             page,
-            `fetch("https://jsonplaceholder.typicode.com/todos/1");`,
+            `fetch("${API}/todos/1");`,
             /\[outer:network\]/,
         )
     })
@@ -249,8 +535,9 @@ test.describe.skip("Security Isolation", () => {
     test("alert() is blocked", async ({ page }) => {
         await page.goto("/")
 
-        await expect(page.locator("#sandbox-status")).toContainText("Ready", {
-            timeout: 10000,
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            execution: { modals: false },
         })
 
         // Set up dialog handler - should NOT be called
@@ -569,3 +856,1212 @@ test.describe.skip("Local HTML Preset", () => {
         )
     })
 })
+
+// ============================================================================
+// Test: Loading pages (loadSrc / src attribute)
+// ============================================================================
+test.describe("Loading Pages", () => {
+    test("loadSrc() renders local HTML page", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, PRESETS.localHtml.rules)
+
+        const loaded = await page.evaluate(
+            () =>
+                new Promise((resolve) => {
+                    const sandbox = document.getElementById("sandbox") as any
+                    sandbox.addEventListener("load", (e: CustomEvent) =>
+                        resolve(e.detail.url),
+                    )
+                    sandbox.loadSrc(
+                        "http://localhost:3333/playground/test-assets/test-page.html",
+                    )
+                }),
+        )
+        expect(loaded).toContain("test-page.html")
+
+        const innerFrame = page
+            .locator("safe-sandbox#sandbox")
+            .frameLocator("iframe")
+            .frameLocator("iframe#inner")
+
+        await expect(innerFrame.locator("h1")).toHaveText("Sandbox Test Page", {
+            timeout: 10000,
+        })
+    })
+
+    test("the src attribute loads a virtual file", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            files: { "/page.html": "<h1>Virtual Page</h1>" },
+        })
+
+        const loaded = await page.evaluate(
+            () =>
+                new Promise((resolve) => {
+                    const sandbox = document.getElementById("sandbox") as any
+                    sandbox.addEventListener("load", (e: CustomEvent) =>
+                        resolve(e.detail.url),
+                    )
+                    sandbox.setAttribute("src", "/page.html")
+                }),
+        )
+        expect(loaded).toContain("/page.html")
+
+        const innerFrame = page
+            .locator("safe-sandbox#sandbox")
+            .frameLocator("iframe")
+            .frameLocator("iframe#inner")
+        await expect(innerFrame.locator("h1")).toHaveText("Virtual Page")
+    })
+
+    test("external pages pass the onRequest hook", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, API_RULES)
+
+        await page.evaluate((api) => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.onRequest(() => ({
+                action: "respond",
+                headers: { "Content-Type": "text/html" },
+                body: "<h1>From the hook</h1>",
+            }))
+            sandbox.loadSrc(`${api}/page.html`)
+        }, API)
+
+        const innerFrame = page
+            .locator("safe-sandbox#sandbox")
+            .frameLocator("iframe")
+            .frameLocator("iframe#inner")
+        await expect(innerFrame.locator("h1")).toHaveText("From the hook", {
+            timeout: 10000,
+        })
+    })
+
+    test("blocked and missing pages dispatch error", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [] })
+
+        const errors = await page.evaluate(async () => {
+            const sandbox = document.getElementById("sandbox") as any
+            const load = (url: string) =>
+                new Promise((resolve) => {
+                    sandbox.addEventListener(
+                        "error",
+                        (e: CustomEvent) => resolve(e.detail),
+                        { once: true },
+                    )
+                    sandbox.loadSrc(url)
+                })
+            return [
+                await load("https://example.com/"),
+                await load("/missing-page.html"),
+            ]
+        })
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                url: "https://example.com/",
+                status: 403,
+            }),
+            expect.objectContaining({
+                url: expect.stringContaining("/missing-page.html"),
+                status: 404,
+            }),
+        ])
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked: loadSrc https:\/\/example\.com\//,
+        )
+    })
+})
+
+// ============================================================================
+// Test: captureContentDebug (telemetry in loaded pages)
+// ============================================================================
+test.describe("Content Debug Telemetry", () => {
+    test("logs from a loaded page reach the host", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            allow: ["localhost"],
+            scriptUnsafe: true,
+            captureContentDebug: true,
+            files: {
+                "/debug.html":
+                    "<html><head></head><body><script>console.log('page-log-42')</script></body></html>",
+            },
+        })
+
+        await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.loadSrc("/debug.html")
+        })
+
+        await expect(page.locator("#logs")).toContainText("page-log-42", {
+            timeout: 10000,
+        })
+    })
+
+    test("a loaded page gets the connection policy of the rules", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        // eventSource defaults to the allow hosts
+        await setupSandbox(page, {
+            ...API_RULES,
+            captureContentDebug: true,
+            files: {
+                "/sse.html": `<html><head></head><body><script>
+try { new EventSource("${API}/events"); console.log("sse-opened") }
+catch (e) { console.log("sse-error", e.name) }
+</script></body></html>`,
+            },
+        })
+
+        await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.loadSrc("/sse.html")
+        })
+
+        await expect(page.locator("#logs")).toContainText("sse-opened", {
+            timeout: 10000,
+        })
+    })
+})
+
+// ============================================================================
+// Test: opaqueOrigin (inner frame without allow-same-origin)
+// ============================================================================
+test.describe("Opaque Origin", () => {
+    test("fetch is proxied and the outer frame is unreachable", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            opaqueOrigin: true,
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1")
+  .then(r => r.json())
+  .then(d => console.log("Proxied:", d.id));`,
+            /Proxied:.*1/,
+        )
+
+        // The request went through the SW like in the default mode
+        await expect(page.locator("#logs")).toContainText(
+            /Fetch.*localhost:3335.*200/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `try { window.parent.document; console.log("Parent reachable"); }
+catch (e) { console.log("Parent blocked:", e.name); }`,
+            /Parent blocked/,
+        )
+    })
+
+    test("proxied requests are checked against the rules", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            allowMethods: ["GET"],
+            opaqueOrigin: true,
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1", { method: "POST", body: "{}" })
+  .then(() => console.log("Unexpected success"))
+  .catch(e => console.log("Proxy refused:", e.name));`,
+            /Proxy refused:.*TypeError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked: POST.*method POST is not allowed/,
+        )
+    })
+
+    test("CSP refuses WebSockets to allow domains in child frames", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            eventSource: false,
+            opaqueOrigin: true,
+        })
+
+        // A frame created by user code has the native WebSocket
+        await executeAndWaitForLog(
+            page,
+            `window.addEventListener("message", e => console.log("Child:", e.data));
+const child = document.createElement("iframe");
+child.srcdoc = \`<script>
+document.addEventListener("securitypolicyviolation", e => parent.postMessage("csp " + e.violatedDirective, "*"));
+try { new WebSocket("ws://localhost:3335/"); } catch (e) {}
+<\/script>\`;
+document.body.appendChild(child);`,
+            /Child: csp connect-src/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: isolation="session" (per-instance sandbox origin)
+// ============================================================================
+test.describe("Session Isolation", () => {
+    test("sessions do not share localStorage", async ({ page }) => {
+        await page.goto("/")
+
+        const result = await page.evaluate(async () => {
+            const createSandbox = () => {
+                const sandbox = document.createElement("safe-sandbox") as any
+                sandbox.setAttribute("isolation", "session")
+                document.body.appendChild(sandbox)
+                return sandbox
+            }
+            const first = createSandbox()
+            const second = createSandbox()
+
+            const firstOrigin = await first.execute(
+                'localStorage.setItem("secret", "first"); return location.origin',
+            )
+            const [secondOrigin, leaked] = await second.execute(
+                'return [location.origin, String(localStorage.getItem("secret"))]',
+            )
+            return { firstOrigin, secondOrigin, leaked }
+        })
+
+        expect(result.firstOrigin).toMatch(
+            /^http:\/\/sandbox-[\w-]+\.localhost/,
+        )
+        expect(result.secondOrigin).toMatch(
+            /^http:\/\/sandbox-[\w-]+\.localhost/,
+        )
+        expect(result.secondOrigin).not.toBe(result.firstOrigin)
+        expect(result.leaked).toBe("null")
+    })
+})
+
+// ============================================================================
+// Test: Storage policy
+// ============================================================================
+test.describe("Storage Policy", () => {
+    test("blocked storage throws and logs a security warning", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { storage: "blocked" })
+
+        await executeAndWaitForLog(
+            page,
+            `try { localStorage.setItem("k", "v"); }
+catch (e) { console.log("Storage error:", e.name); }`,
+            /Storage error:.*SecurityError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked localStorage/,
+        )
+    })
+
+    test("clearStorage() wipes the sandbox origin", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {})
+
+        const value = await page.evaluate(async () => {
+            const sandbox = document.getElementById("sandbox") as any
+            await sandbox.execute('localStorage.setItem("k", "v")')
+            await sandbox.clearStorage()
+            return sandbox.execute('return String(localStorage.getItem("k"))')
+        })
+        expect(value).toBe("null")
+    })
+})
+
+// ============================================================================
+// Test: Service Worker health monitor
+// ============================================================================
+test.describe("Service Worker Health", () => {
+    test("unregistering the SW is detected and repaired", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, API_RULES)
+
+        const detail = await page.evaluate(
+            () =>
+                new Promise<any>((resolve) => {
+                    const sandbox = document.getElementById("sandbox") as any
+                    sandbox.addEventListener(
+                        "tamper",
+                        (e: CustomEvent) => resolve(e.detail),
+                        { once: true },
+                    )
+                    sandbox.execute(
+                        "return window.parent.navigator.serviceWorker.getRegistrations()" +
+                            ".then(regs => Promise.all(regs.map(r => r.unregister())))",
+                    )
+                }),
+        )
+
+        expect(detail.area).toBe("security")
+        expect(detail.reason).toBe("missing")
+        expect(detail.action).toBe("reregister")
+
+        await expect(page.locator("#logs")).toContainText("SW: re-registered", {
+            timeout: 10000,
+        })
+    })
+})
+
+// ============================================================================
+// Test: Connection policy (WebSocket / EventSource / WebRTC)
+// ============================================================================
+test.describe("Connection Policy", () => {
+    test("WebSocket is blocked by default", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, API_RULES)
+
+        await executeAndWaitForLog(
+            page,
+            `try { new WebSocket("ws://localhost:3335/socket"); }
+catch (e) { console.log("WS error:", e.name); }`,
+            /WS error:.*SecurityError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked WebSocket.*NetworkRules\.websockets/,
+        )
+    })
+
+    test("malformed hosts are refused by the element and the server", async ({
+        page,
+        request,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { websockets: ["ws://a.com; frame-src *"] })
+        await expect(page.locator("#logs")).toContainText(
+            /Invalid NetworkRules: websockets: "ws:\/\/a\.com; frame-src \*" is not/,
+        )
+
+        // A config signed with such a list gets no sandbox page
+        const signed = await request.post(
+            "http://sandbox.localhost:3333/_sandbox/sign",
+            {
+                headers: {
+                    Origin: "http://localhost:3333",
+                    "Content-Type": "application/x-www-form-urlencoded",
+                },
+                data: new URLSearchParams({ ws: "ws://a.com *" }).toString(),
+            },
+        )
+        const { token } = await signed.json()
+        const response = await request.get(
+            `http://sandbox.localhost:3333/outer-frame.html?config=${encodeURIComponent(token)}`,
+        )
+        expect(response.status()).toBe(400)
+        expect(await response.text()).toContain("Invalid connection rules")
+    })
+})
+
+// ============================================================================
+// Test: Custom CSP directives (NetworkRules.csp)
+// ============================================================================
+test.describe("Custom CSP Directives", () => {
+    test("directives apply and loosening rules are refused", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            csp: { directives: { "font-src": ["*"] } },
+        })
+        await expect(page.locator("#logs")).toContainText(
+            /Invalid NetworkRules\.csp: font-src: "\*" would loosen/,
+        )
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            csp: { directives: { "img-src": ["'none'"] } },
+        })
+        await executeAndWaitForLog(
+            page,
+            `const img = new Image();
+img.src = "/pixel.png";
+document.body.appendChild(img);`,
+            /Security Violation: img-src/,
+        )
+    })
+
+    test("hosts granted by a directive pass the allow rules", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        // 127.0.0.1:3335 is the local API under a host `allow` does not name
+        await setupSandbox(page, {
+            ...API_RULES,
+            csp: { directives: { "img-src": ["'self'", "127.0.0.1:3335"] } },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `const img = new Image();
+img.src = "http://127.0.0.1:3335/todos/5";
+document.body.appendChild(img);`,
+            /Fetch: GET http:\/\/127\.0\.0\.1:3335\/todos\/5 -> 200/,
+        )
+        await expect(page.locator("#logs")).not.toContainText(
+            /matches no allow rule/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: Signed configuration
+// ============================================================================
+test.describe("Signed Configuration", () => {
+    test("unsigned sandbox URLs are refused", async ({ page, request }) => {
+        await page.goto("/")
+        await expect(page.locator("#sandbox-status")).toContainText("Ready", {
+            timeout: 10000,
+        })
+
+        // The element loads the outer frame with a signed config only
+        const src = await page.evaluate(
+            () =>
+                document
+                    .querySelector("safe-sandbox")!
+                    .shadowRoot!.querySelector("iframe")!.src,
+        )
+        expect(new URL(src).searchParams.has("config")).toBe(true)
+
+        // A permissive CSP cannot be requested without a token
+        const response = await request.get(
+            "http://sandbox.localhost:3333/outer-frame.html?allow=evil.com&unsafe=true",
+        )
+        expect(response.status()).toBe(403)
+    })
+})
+
+// ============================================================================
+// Test: Embedder allowlist
+// ============================================================================
+test.describe("Embedder Allowlist", () => {
+    test("other origins cannot sign or embed the sandbox", async ({
+        request,
+    }) => {
+        const sign = await request.post(
+            "http://sandbox.localhost:3333/_sandbox/sign",
+            { headers: { Origin: "https://evil.example" }, data: "" },
+        )
+        expect(sign.status()).toBe(403)
+        expect((await sign.json()).error).toContain("embedder allowlist")
+
+        // A token of the allowed host, embedded by another page
+        const { token } = await (
+            await request.post("http://sandbox.localhost:3333/_sandbox/sign", {
+                headers: { Origin: "http://localhost:3333" },
+                data: "",
+            })
+        ).json()
+        const page = await request.get(
+            `http://sandbox.localhost:3333/outer-frame.html?config=${token}`,
+            { headers: { Referer: "https://evil.example/" } },
+        )
+        expect(page.status()).toBe(403)
+        expect(await page.text()).toContain("not allowed to embed")
+    })
+})
+
+// ============================================================================
+// Test: Allow & deny rules
+// ============================================================================
+test.describe("Allow & Deny Rules", () => {
+    test("path prefixes and deny rules are enforced by the SW", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            allow: [`${API}/todos/`],
+            deny: [`${API}/todos/2`],
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1")
+  .then(r => r.json())
+  .then(d => console.log("Allowed:", d.id));`,
+            /Allowed:.*1/,
+        )
+
+        // The prefix "/todos/" also covers "/todos" itself
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos")
+  .then(r => console.log("Bare prefix:", r.status));`,
+            /Bare prefix:.*404/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/2")
+  .catch(e => console.log("Denied:", e.name));`,
+            /Denied:.*TypeError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked: GET .*todos\/2 - matches a deny rule/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/users/1")
+  .catch(e => console.log("Outside prefix:", e.name));`,
+            /Outside prefix:.*TypeError/,
+        )
+    })
+
+    test("malformed rules are rejected when set", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: ["*"] })
+        await expect(page.locator("#logs")).toContainText(
+            /Invalid NetworkRules: allow: "\*" is not/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: CORS proxy (local stand-in upstream without CORS headers)
+// ============================================================================
+test.describe("CORS Proxy", () => {
+    // Reachable through the proxy via SANDBOX_PROXY_PRIVATE_HOSTS
+    // (playwright.config.ts)
+    const UPSTREAM_PORT = 3334
+    const UPSTREAM = `http://localhost:${UPSTREAM_PORT}`
+    let upstream: Server
+
+    test.beforeAll(async () => {
+        upstream = createServer((req, res) => {
+            if (req.url === "/redirect") {
+                res.writeHead(302, { Location: "https://example.com/" })
+                res.end()
+                return
+            }
+            res.writeHead(200, {
+                "Content-Type": "text/plain",
+                "Set-Cookie": "upstream=1",
+            })
+            res.end(`upstream ok, cookie: ${req.headers.cookie ?? "none"}`)
+        })
+        await new Promise<void>((resolve) =>
+            upstream.listen(UPSTREAM_PORT, resolve),
+        )
+    })
+
+    test.afterAll(async () => {
+        await new Promise((resolve) => upstream.close(resolve))
+    })
+
+    test("allowed non-CORS upstream is readable through the proxy", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [UPSTREAM], proxyUrl: "/_proxy" })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${UPSTREAM}/data")
+  .then(r => r.text())
+  .then(t => console.log("Proxied:", t));`,
+            /Proxied: upstream ok, cookie: none/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Proxy: GET http:\/\/localhost:3334\/data/,
+        )
+    })
+
+    test("redirects to hosts outside the allow rules are refused", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [UPSTREAM], proxyUrl: "/_proxy" })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${UPSTREAM}/redirect")
+  .then(r => r.text().then(t => console.log("Status:", r.status, t)));`,
+            /Status: 403 Proxy: https:\/\/example\.com\/ matches no allow rule/,
+        )
+    })
+
+    test("user code cannot call the proxy endpoint directly", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [UPSTREAM], proxyUrl: "/_proxy" })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/_proxy?url=https://example.com/")
+  .catch(e => console.log("Direct:", e.name));`,
+            /Direct:.*TypeError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /direct requests to the CORS proxy are not allowed/,
+        )
+    })
+
+    test("without proxyUrl the proxy is blocked and refused", async ({
+        page,
+        request,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { allow: [UPSTREAM] })
+
+        // The config token is readable from the frame URL
+        await executeAndWaitForLog(
+            page,
+            `const config = new URLSearchParams(location.search).get("config");
+fetch("/_proxy?url=${UPSTREAM}/data&config=" + encodeURIComponent(config))
+  .catch(e => console.log("Direct:", e.name));`,
+            /Direct:.*TypeError/,
+        )
+
+        const sign = async (params: Record<string, string>) => {
+            const response = await request.post(
+                "http://sandbox.localhost:3333/_sandbox/sign",
+                {
+                    headers: {
+                        Origin: "http://localhost:3333",
+                        "Content-Type": "application/x-www-form-urlencoded",
+                    },
+                    data: new URLSearchParams(params).toString(),
+                },
+            )
+            return (await response.json()).token as string
+        }
+        const proxy = (token: string, target: string) =>
+            request.get(
+                `http://sandbox.localhost:3333/_proxy?url=${encodeURIComponent(target)}&config=${encodeURIComponent(token)}`,
+            )
+
+        const withoutOptIn = await proxy(
+            await sign({ allow: UPSTREAM }),
+            `${UPSTREAM}/data`,
+        )
+        expect(withoutOptIn.status()).toBe(403)
+        expect(await withoutOptIn.text()).toContain("does not enable the proxy")
+
+        // Signed deny rules apply to the proxy as well
+        const denied = await proxy(
+            await sign({
+                allow: UPSTREAM,
+                deny: `${UPSTREAM}/secret`,
+                proxy: "true",
+            }),
+            `${UPSTREAM}/secret`,
+        )
+        expect(denied.status()).toBe(403)
+        expect(await denied.text()).toContain("matches a deny rule")
+    })
+})
+
+// ============================================================================
+// Test: Host request hook (SafeSandbox.onRequest)
+// ============================================================================
+test.describe("Request Hook", () => {
+    test("the host answers, rewrites and blocks requests", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, API_RULES)
+
+        await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.onRequest((request: any) => {
+                const { pathname } = new URL(request.url)
+                if (pathname === "/mock") {
+                    return {
+                        action: "respond",
+                        headers: { "Content-Type": "application/json" },
+                        body: '{"mocked":true}',
+                    }
+                }
+                if (pathname === "/todos/1") {
+                    return {
+                        action: "rewrite",
+                        url: "http://localhost:3335/todos/2",
+                    }
+                }
+                if (pathname === "/todos/3") {
+                    return { action: "block", reason: "needs approval" }
+                }
+            })
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/mock")
+  .then(r => r.json())
+  .then(d => console.log("Mocked:", d.mocked));`,
+            /Mocked:.*true/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1")
+  .then(r => r.json())
+  .then(d => console.log("Rewritten id:", d.id));`,
+            /Rewritten id:.*2/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/3")
+  .catch(e => console.log("Hook blocked:", e.name));`,
+            /Hook blocked:.*TypeError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Blocked: GET .*todos\/3 - blocked by the host: needs approval/,
+        )
+    })
+
+    test("a handler without an answer falls back to the static rules", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, API_RULES)
+
+        await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.onRequest(() => new Promise(() => {}), { timeoutMs: 500 })
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1")
+  .then(r => r.json())
+  .then(d => console.log("Fallback id:", d.id));`,
+            /Fallback id:.*1/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /no decision within 500ms, static rules applied/,
+        )
+    })
+})
+
+// ============================================================================
+// Test: HAR export of the SW network journal
+// ============================================================================
+test.describe("HAR Export", () => {
+    test("network, virtual file and CSP blocks are exported", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            files: { "/data.txt": "Hello World" },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/1")
+  .then(() => fetch("/data.txt"))
+  .then(() => fetch("https://example.com/blocked").catch(() => {}))
+  .then(() => console.log("Requests done"));`,
+            /Requests done/,
+        )
+
+        const exportHar = () =>
+            page.evaluate(() =>
+                (document.getElementById("sandbox") as any).exportHar(),
+            )
+        // The CSP block travels inner frame -> outer frame -> SW
+        await expect
+            .poll(async () =>
+                (await exportHar()).log.entries.some(
+                    (entry: any) => entry._source === "csp",
+                ),
+            )
+            .toBe(true)
+
+        const har = await exportHar()
+        expect(har.log.version).toBe("1.2")
+        const find = (part: string) =>
+            har.log.entries.find((entry: any) =>
+                entry.request.url.includes(part),
+            )
+
+        const fetched = find("localhost:3335/todos/1")
+        expect(fetched._source).toBe("network")
+        expect(fetched.response.status).toBe(200)
+        expect(fetched.response.content.mimeType).toContain("json")
+        expect(fetched.timings.wait).toBeGreaterThanOrEqual(0)
+
+        const virtual = find("/data.txt")
+        expect(virtual._source).toBe("virtual")
+        expect(virtual.response.bodySize).toBe(11)
+
+        const blocked = find("example.com/blocked")
+        expect(blocked._source).toBe("csp")
+        expect(blocked._blockedBy).toContain("connect-src")
+    })
+})
+
+// ============================================================================
+// Test: Record & replay network fixtures (NetworkRules.network)
+// ============================================================================
+test.describe("Network Fixtures", () => {
+    test("pages opened with loadSrc() are replayed too", async ({ page }) => {
+        await page.goto("/")
+
+        // The host does not exist: only the fixture can answer
+        await setupSandbox(page, {
+            allow: ["docs.example.test"],
+            network: {
+                mode: "replay",
+                fixtures: {
+                    version: 1,
+                    fixtures: [
+                        {
+                            method: "GET",
+                            url: "https://docs.example.test/guide.html",
+                            status: 200,
+                            statusText: "OK",
+                            headers: { "content-type": "text/html" },
+                            body: "<h1>Replayed Guide</h1>",
+                        },
+                    ],
+                },
+            },
+        })
+
+        await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            sandbox.loadSrc("https://docs.example.test/guide.html")
+        })
+
+        const innerFrame = page
+            .locator("safe-sandbox#sandbox")
+            .frameLocator("iframe")
+            .frameLocator("iframe#inner")
+        await expect(innerFrame.locator("h1")).toHaveText("Replayed Guide", {
+            timeout: 10000,
+        })
+        await expect(page.locator("#logs")).toContainText(
+            /Fetch: GET https:\/\/docs\.example\.test\/guide\.html -> 200 \(replay\)/,
+        )
+    })
+
+    test("replay serves fixtures and fails loudly on unmatched requests", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, PRESETS.replay.rules)
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("https://jsonplaceholder.typicode.com/todos/1")
+  .then(r => r.json())
+  .then(d => console.log("Replayed:", d.title));`,
+            /Replayed:.*delectus aut autem/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Fetch: GET .*todos\/1 -> 200 \(replay\)/,
+        )
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("https://jsonplaceholder.typicode.com/todos/2")
+  .catch(e => console.log("Unmatched:", e.name));`,
+            /Unmatched:.*TypeError/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /Replay: no fixture for GET .*todos\/2/,
+        )
+    })
+
+    test("recorded fixtures replay the same response", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            network: { mode: "record" },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/3")
+  .then(r => r.json())
+  .then(d => console.log("Recorded id:", d.id));`,
+            /Recorded id:.*3/,
+        )
+
+        const fixtures = await page.evaluate(() =>
+            (document.getElementById("sandbox") as any).exportFixtures(),
+        )
+        expect(fixtures.version).toBe(1)
+        expect(fixtures.fixtures[0].url).toContain("/todos/3")
+
+        await setupSandbox(page, {
+            ...API_RULES,
+            network: { mode: "replay", fixtures },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("${API}/todos/3")
+  .then(r => r.json())
+  .then(d => console.log("Replayed id:", d.id));`,
+            /Replayed id:.*3/,
+        )
+        await expect(page.locator("#logs")).toContainText(/\(replay\)/)
+    })
+})
+
+// ============================================================================
+// Test: Virtual filesystem API (SafeSandbox.fs)
+// ============================================================================
+test.describe("Virtual Filesystem", () => {
+    test("incremental writes, directory index and listing", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            files: { "/data.txt": "Hello World" },
+        })
+
+        const listing = await page.evaluate(async () => {
+            const { fs } = document.getElementById("sandbox") as any
+            await fs.mkdir("/empty")
+            await Promise.all([
+                fs.writeFile("/docs/index.html", "<h1>Docs</h1>"),
+                fs.writeFile("/docs/a.txt", "draft"),
+                fs.writeFile("/docs/a.txt", "final"),
+            ])
+            await fs.rename("/data.txt", "/moved.txt")
+            return fs.ls("/")
+        })
+        expect(listing.map((entry: any) => entry.path)).toEqual([
+            "/docs/",
+            "/empty/",
+            "/moved.txt",
+        ])
+
+        await executeAndWaitForLog(
+            page,
+            `Promise.all(["/docs/", "/docs/a.txt", "/moved.txt", "/data.txt"].map(p =>
+  fetch(p).then(r => r.status === 200 ? r.text() : r.status)))
+  .then(results => console.log("FS:", results.join(" | ")));`,
+            /FS: <h1>Docs<\/h1> \| final \| Hello World \| 404/,
+        )
+    })
+
+    test("user code observes changes as fschange events", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { scriptUnsafe: true })
+
+        await executeAndWaitForLog(
+            page,
+            `window.addEventListener("fschange", e =>
+  console.log("Changed:", e.detail.changes.map(c => c.type + " " + c.path).join(", ")));
+console.log("Watching");`,
+            /Watching/,
+        )
+
+        await page.evaluate(async () => {
+            const { fs } = document.getElementById("sandbox") as any
+            await fs.writeFile("/notes.md", "# Notes")
+        })
+        await expect(page.locator("#logs")).toContainText(
+            /Changed: write \/notes\.md/,
+        )
+
+        await expect(
+            page.evaluate(async () => {
+                const { fs } = document.getElementById("sandbox") as any
+                return fs.rm("/missing.txt")
+            }),
+        ).rejects.toThrow(/ENOENT/)
+    })
+
+    test("a write in flight settles when the sandbox reloads", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, { scriptUnsafe: true })
+
+        const settled = await page.evaluate(async (rules) => {
+            const sandbox = document.getElementById("sandbox") as any
+            const write = sandbox.fs.writeFile("/late.txt", "late")
+            // Let the patch go out, then rebuild the frames before it is answered
+            await Promise.resolve()
+            sandbox.setNetworkRules(rules)
+            return Promise.race([
+                write.then(() => "settled"),
+                new Promise((resolve) =>
+                    setTimeout(() => resolve("pending"), 3000),
+                ),
+            ])
+        }, API_RULES)
+        expect(settled).toBe("settled")
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/late.txt").then(r => r.text()).then(t => console.log("After reload:", t));`,
+            /After reload: late/,
+        )
+    })
+
+    test("invalid file paths are refused without changing the rules", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            files: { "/data.txt": "kept" },
+        })
+
+        const result = await page.evaluate(() => {
+            const sandbox = document.getElementById("sandbox") as any
+            let error = ""
+            try {
+                sandbox.setNetworkRules({
+                    scriptUnsafe: true,
+                    files: { "../secret.txt": "x" },
+                })
+            } catch (err: any) {
+                error = err.message
+            }
+            return { error, files: Object.keys(sandbox.fs.snapshot()) }
+        })
+        expect(result.error).toMatch(/Invalid NetworkRules\.files/)
+        expect(result.files).toEqual(["/data.txt"])
+    })
+})
+
+test.describe("Virtual Filesystem Persistence", () => {
+    test("files survive a Service Worker restart", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            files: { "/synced.txt": "from rules" },
+        })
+        await page.evaluate(async () => {
+            const { fs } = document.getElementById("sandbox") as any
+            await fs.writeFile("/patched.txt", "from fs")
+        })
+
+        // What the browser does to an idle SW
+        const cdp = await page.context().newCDPSession(page)
+        await cdp.send("ServiceWorker.enable")
+        await cdp.send("ServiceWorker.stopAllWorkers")
+
+        await executeAndWaitForLog(
+            page,
+            `Promise.all(["/synced.txt", "/patched.txt"].map(p =>
+  fetch(p).then(r => r.status === 200 ? r.text() : r.status)))
+  .then(results => console.log("Restored:", results.join(" | ")));`,
+            /Restored: from rules \| from fs/,
+        )
+        await expect(page.locator("#logs")).toContainText(
+            /SW: restored 2 virtual files/,
+        )
+    })
+
+    test("a tree changed by user code is replaced by the host's", async ({
+        page,
+    }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            files: { "/synced.txt": "from rules" },
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `const open = indexedDB.open("sandbox-vfs");
+open.onsuccess = () => {
+  const files = open.result.transaction("files", "readwrite").objectStore("files");
+  const all = files.getAll();
+  all.onsuccess = () => {
+    for (const record of all.result) files.put({ ...record, file: "tampered" });
+    all.transaction.oncomplete = () => console.log("Tampered:", all.result.length);
+  };
+};`,
+            /Tampered: 1/,
+        )
+
+        const cdp = await page.context().newCDPSession(page)
+        await cdp.send("ServiceWorker.enable")
+        await cdp.send("ServiceWorker.stopAllWorkers")
+
+        await executeAndWaitForLog(
+            page,
+            `fetch("/synced.txt").then(r => r.text()).then(t => console.log("Served:", t));`,
+            /Served: from rules/,
+        )
+    })
+
+    test("each sandbox session keeps its own stored tree", async ({ page }) => {
+        await page.goto("/")
+
+        await setupSandbox(page, {
+            scriptUnsafe: true,
+            files: { "/first.txt": "first" },
+        })
+
+        // A second instance on the same sandbox origin
+        await page.evaluate(async () => {
+            const second = document.createElement("safe-sandbox") as any
+            document.body.appendChild(second)
+            second.setNetworkRules({
+                scriptUnsafe: true,
+                files: { "/second.txt": "second" },
+            })
+            await second.execute("")
+        })
+
+        await executeAndWaitForLog(
+            page,
+            `const count = () => {
+  const open = indexedDB.open("sandbox-vfs");
+  open.onsuccess = () => {
+    const all = open.result.transaction("sessions").objectStore("sessions").getAll();
+    all.onsuccess = () => all.result.length >= 2
+      ? console.log("Stored sessions:", all.result.length)
+      : setTimeout(count, 100);
+  };
+};
+count();`,
+            /Stored sessions: 2/,
+        )
+    })
+})
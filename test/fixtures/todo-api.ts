@@ -0,0 +1,53 @@
+import { serve } from "bun"
+
+/**
+ * Todo API - local stand-in for jsonplaceholder.typicode.com
+ * Serves /todos/:id and /users/:id as CORS-enabled JSON, so the e2e tests
+ * (and the fixtures they record) do not depend on a live third-party API.
+ * Started by playwright.config.ts.
+ */
+
+const PORT = parseInt(process.env.TODO_API_PORT || "3335", 10)
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE",
+    "Access-Control-Allow-Headers": "*",
+}
+
+// Same shape (and first title) as jsonplaceholder
+const TITLES = ["delectus aut autem", "quis ut nam facilis et officia qui"]
+
+function resource(kind: string, id: number): object | null {
+    if (!Number.isInteger(id) || id < 1 || id > 200) return null
+    if (kind === "todos") {
+        return {
+            userId: 1,
+            id,
+            title: TITLES[id - 1] ?? `todo ${id}`,
+            completed: false,
+        }
+    }
+    if (kind === "users" && id <= 10) {
+        return { id, name: `User ${id}`, username: `user${id}` }
+    }
+    return null
+}
+
+serve({
+    port: PORT,
+    fetch(req) {
+        if (req.method === "OPTIONS") {
+            return new Response(null, { status: 204, headers: CORS_HEADERS })
+        }
+
+        const [, kind, id] = new URL(req.url).pathname.split("/")
+        const body = resource(kind, Number(id))
+        if (!body) {
+            return Response.json({}, { status: 404, headers: CORS_HEADERS })
+        }
+        return Response.json(body, { headers: CORS_HEADERS })
+    },
+})
+
+console.log(`[Todo API] http://localhost:${PORT}`)
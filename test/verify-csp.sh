@@ -1,11 +1,21 @@
 #!/bin/bash
 # test/verify-csp.sh
-# Verifies that the sandbox server applies dynamic CSP headers based on query params.
+# Verifies that the sandbox server applies dynamic CSP headers based on signed config params.
 
 SERVER_URL="http://sandbox.localhost:3333"
+HOST_ORIGIN="http://localhost:3333"
+
+# Signs query params for the host origin and prints the token
+sign() {
+  curl -s -X POST -H "Origin: $HOST_ORIGIN" --data "$1" "$SERVER_URL/_sandbox/sign" \
+    | sed 's/.*"token":"\([^"]*\)".*/\1/'
+}
+
+ALLOW_TOKEN=$(sign "allow=api.foo.com,bar.com")
+DEFAULT_TOKEN=$(sign "")
 
 echo "Checking Outer Frame CSP..."
-CURL_OUT=$(curl -sI "$SERVER_URL/outer-frame.html?allow=api.foo.com,bar.com")
+CURL_OUT=$(curl -sI "$SERVER_URL/outer-frame.html?config=$ALLOW_TOKEN")
 if echo "$CURL_OUT" | grep -q "connect-src 'self' https://api.foo.com https://bar.com"; then
   echo "✅ Outer Frame: Dynamic CSP applied correctly"
 else
@@ -14,7 +24,7 @@ else
 fi
 
 echo -e "\nChecking Inner Frame CSP (propagation test)..."
-CURL_IN=$(curl -sI "$SERVER_URL/inner-frame.html?allow=api.foo.com,bar.com")
+CURL_IN=$(curl -sI "$SERVER_URL/inner-frame.html?config=$ALLOW_TOKEN")
 if echo "$CURL_IN" | grep -q "connect-src 'self' https://api.foo.com https://bar.com"; then
   echo "✅ Inner Frame: Dynamic CSP applied correctly"
 else
@@ -23,10 +33,27 @@ else
 fi
 
 echo -e "\nChecking Default CSP (no params)..."
-CURL_DEF=$(curl -sI "$SERVER_URL/outer-frame.html")
+CURL_DEF=$(curl -sI "$SERVER_URL/outer-frame.html?config=$DEFAULT_TOKEN")
 if echo "$CURL_DEF" | grep -q "connect-src 'self';"; then
   echo "✅ Default: Strict connect-src 'self' applied"
 else
   echo "❌ Default: CSP failure"
   echo "$CURL_DEF" | grep "Content-Security-Policy"
 fi
+
+echo -e "\nChecking frame-ancestors..."
+if echo "$CURL_DEF" | grep -q "frame-ancestors $HOST_ORIGIN;"; then
+  echo "✅ frame-ancestors limited to the signed host"
+else
+  echo "❌ frame-ancestors missing"
+  echo "$CURL_DEF" | grep "Content-Security-Policy"
+fi
+
+echo -e "\nChecking unsigned and tampered configs..."
+UNSIGNED=$(curl -s -o /dev/null -w "%{http_code}" "$SERVER_URL/outer-frame.html?allow=evil.com&unsafe=true")
+TAMPERED=$(curl -s -o /dev/null -w "%{http_code}" "$SERVER_URL/outer-frame.html?config=${ALLOW_TOKEN}x")
+if [ "$UNSIGNED" = "403" ] && [ "$TAMPERED" = "403" ]; then
+  echo "✅ Unsigned/tampered configs rejected"
+else
+  echo "❌ Unsigned: $UNSIGNED, tampered: $TAMPERED (expected 403)"
+fi